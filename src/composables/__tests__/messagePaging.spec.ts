@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createApp, defineComponent, h } from 'vue'
+import type { INotifier } from '../../interfaces/notifier.interface'
+import { provideChatConfig } from '../useChatConfig'
+import { useMessages, type IChatMessage } from '../useMessages'
+
+const TOTAL = 10
+
+// Messages m1 (oldest) to m10 (newest), one minute apart
+const createMessage = (index: number): IChatMessage => ({
+  id: `m${index}`,
+  content: `message ${index}`,
+  sender: { id: 'alice', name: 'alice' },
+  readBy: [],
+  createdAt: new Date(Date.UTC(2026, 0, 1, 10, index)).toISOString(),
+  updatedAt: new Date(Date.UTC(2026, 0, 1, 10, index)).toISOString()
+} as unknown as IChatMessage)
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => createMessage(from + i))
+
+const history = (messages: IChatMessage[]) => new Response(JSON.stringify({
+  conversation: { id: 'general', type: 'group', participants: [] },
+  messages,
+  totalMessages: TOTAL
+}), { status: 200, headers: { 'Content-Type': 'application/json' } })
+
+const createNotifier = (): INotifier => ({
+  info: vi.fn(),
+  success: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+})
+
+describe('message paging around a loaded window', () => {
+  const requested: URLSearchParams[] = []
+
+  beforeEach(() => {
+    requested.length = 0
+    // Pages of 3, before/around/page like the server
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const params = new URL(url, 'http://localhost').searchParams
+      requested.push(params)
+      const around = params.get('around')
+      const before = params.get('before')
+      if (around) {
+        const index = Number(around.slice(1))
+        return history(range(Math.max(1, index - 1), index + 1))
+      }
+      if (before) {
+        const index = Number(before.slice(1))
+        return history(range(Math.max(1, index - 3), index - 1))
+      }
+      return history(range(TOTAL - 2, TOTAL))
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('pages before the oldest contiguous message and ignores the window in the count', async () => {
+    let messages: ReturnType<typeof useMessages> | undefined
+    const app = createApp(defineComponent({
+      setup() {
+        messages = useMessages()
+        return () => h('div')
+      }
+    }))
+    provideChatConfig(app, { notifier: createNotifier() })
+    app.mount(document.createElement('div'))
+    if (!messages) throw new Error('useMessages was not set up')
+
+    await messages.getChatHistory('general', 1, 3)
+    // Jump to m2: m1 to m3 are loaded, m4 to m7 are still missing
+    await messages.loadMessageWindow('general', 'm2')
+    expect(messages.getMessages('general')).toHaveLength(6)
+    expect(messages.hasMoreMessages('general')).toBe(true)
+
+    await messages.loadOlderMessages('general', 3)
+    expect(requested.at(-1)?.get('before')).toBe('m8')
+    expect(requested.at(-1)?.has('page')).toBe(false)
+    expect(messages.hasMoreMessages('general')).toBe(true)
+
+    // m4 fills the gap, m2 and m3 are already loaded
+    await messages.loadOlderMessages('general', 3)
+    expect(requested.at(-1)?.get('before')).toBe('m5')
+    expect(messages.getMessages('general').map(m => m.id)).toEqual(range(1, TOTAL).map(m => m.id))
+    expect(messages.hasMoreMessages('general')).toBe(true)
+
+    await messages.loadOlderMessages('general', 3)
+    expect(requested.at(-1)?.get('before')).toBe('m2')
+    expect(messages.hasMoreMessages('general')).toBe(false)
+    app.unmount()
+  })
+})
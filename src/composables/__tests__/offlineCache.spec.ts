@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { createApp, defineComponent, h, nextTick } from 'vue'
+import { provideChatConfig } from '../useChatConfig'
+import { useAuth, type AuthUser } from '../useAuth'
+import { useOfflineCache } from '../useOfflineCache'
+import { useMessages, type IChatMessage } from '../useMessages'
+import { useConversation } from '../useConversation'
+import { usePersistence } from '../usePersistence'
+import { createMemoryAdapter } from '../../utils/storageAdapters'
+import type { IConversation } from '../../interfaces/conversation.interface'
+
+const createUser = (id: string): AuthUser => ({
+  id,
+  name: id,
+  email: `${id}@example.com`,
+  avatarUrl: '',
+  provider: 'google'
+})
+
+const createMessage = (id: string, senderId: string): IChatMessage => ({
+  id,
+  content: `message ${id}`,
+  sender: { id: senderId, name: senderId },
+  readBy: [],
+  createdAt: new Date('2026-01-01T10:00:00Z'),
+  updatedAt: new Date('2026-01-01T10:00:00Z')
+} as unknown as IChatMessage)
+
+// Wait for the partition watcher: flush, reset, switch and hydrate
+const settle = async () => {
+  await nextTick()
+  await new Promise(resolve => setTimeout(resolve, 10))
+}
+
+describe('offline cache user switch', () => {
+  it('drops the previous user from memory and from the next partition', async () => {
+    const adapter = createMemoryAdapter()
+    let composables: {
+      auth: ReturnType<typeof useAuth>
+      messages: ReturnType<typeof useMessages>
+      conversation: ReturnType<typeof useConversation>
+      persistence: ReturnType<typeof usePersistence>
+    } | undefined
+
+    const app = createApp(defineComponent({
+      setup() {
+        composables = {
+          auth: useAuth(),
+          messages: useMessages(),
+          conversation: useConversation(),
+          persistence: usePersistence()
+        }
+        useOfflineCache()
+        return () => h('div')
+      }
+    }))
+    provideChatConfig(app, { storageAdapter: adapter, features: { offlineCache: true } })
+    app.mount(document.createElement('div'))
+    if (!composables) throw new Error('Composables were not set up')
+    const { auth, messages, conversation, persistence } = composables
+
+    auth.currentUser.value = createUser('alice')
+    await settle()
+    expect(persistence.partition.value).toBe('alice')
+
+    conversation.conversations.value = [{ _id: 'shared' } as IConversation]
+    messages.addMessage('shared', createMessage('m-alice', 'alice'))
+
+    // Bob signs in before Alice's debounced writes ran
+    auth.currentUser.value = createUser('bob')
+    await settle()
+    expect(persistence.partition.value).toBe('bob')
+
+    // Nothing of Alice stays in memory
+    expect(messages.getMessages('shared')).toEqual([])
+    expect(conversation.conversations.value).toEqual([])
+
+    // Bob's writes don't carry Alice's data into his partition
+    messages.addMessage('shared', createMessage('m-bob', 'bob'))
+    await persistence.flush()
+
+    const bobMessages = await adapter.getAll('messages', 'bob:')
+    const bobData = bobMessages.map(entry => entry.record.data).join('')
+    expect(bobData).toContain('m-bob')
+    expect(bobData).not.toContain('m-alice')
+    expect(await adapter.getItem('conversations', 'bob:list')).toBeUndefined()
+
+    // Alice's cache still holds her last changes
+    const aliceMessages = await adapter.getItem('messages', 'alice:shared')
+    expect(aliceMessages?.data).toContain('m-alice')
+
+    app.unmount()
+  })
+})
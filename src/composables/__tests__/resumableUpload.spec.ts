@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createApp, defineComponent, h } from 'vue'
+import type { INotifier } from '../../interfaces/notifier.interface'
+import { provideChatConfig } from '../useChatConfig'
+import { useFileUpload } from '../useFileUpload'
+
+type Listener = () => void
+
+// XMLHttpRequest that keeps the sent chunks until the test answers them
+class FakeXhr {
+  static sent: FakeXhr[] = []
+
+  status = 0
+  statusText = ''
+  responseText = ''
+  headers: Record<string, string> = {}
+  private listeners: Record<string, Listener[]> = {}
+  upload = { addEventListener: () => {} }
+
+  addEventListener(type: string, listener: Listener) {
+    (this.listeners[type] ||= []).push(listener)
+  }
+
+  open() {}
+
+  setRequestHeader(key: string, value: string) {
+    this.headers[key] = value
+  }
+
+  getAllResponseHeaders() {
+    return ''
+  }
+
+  send() {
+    FakeXhr.sent.push(this)
+  }
+
+  // Like browsers, abort() fires the event synchronously
+  abort() {
+    this.listeners.abort?.forEach(listener => listener())
+  }
+
+  respond(data: object) {
+    this.status = 200
+    this.statusText = 'OK'
+    this.responseText = JSON.stringify(data)
+    this.listeners.load?.forEach(listener => listener())
+  }
+}
+
+const json = (data: object) => new Response(JSON.stringify(data), {
+  status: 200,
+  headers: { 'Content-Type': 'application/json' }
+})
+
+const createNotifier = (): INotifier => ({
+  info: vi.fn(),
+  success: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+})
+
+describe('resumable upload pause', () => {
+  beforeEach(() => {
+    FakeXhr.sent = []
+    localStorage.clear()
+    vi.stubGlobal('XMLHttpRequest', FakeXhr)
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === 'POST') return json({ uploadId: 'session-1', offset: 0 })
+      return json({ offset: 0 })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('continues when the upload is resumed before the aborted chunk is handled', async () => {
+    let upload: ReturnType<typeof useFileUpload> | undefined
+    const notifier = createNotifier()
+    const app = createApp(defineComponent({
+      setup() {
+        upload = useFileUpload()
+        return () => h('div')
+      }
+    }))
+    provideChatConfig(app, { notifier, upload: { resumableThreshold: 0, chunkSize: 1024 } })
+    app.mount(document.createElement('div'))
+    if (!upload) throw new Error('useFileUpload was not set up')
+
+    const file = new File(['0123456789'], 'notes.txt', { type: 'text/plain' })
+    const uploaded = upload.uploadFile(file, { fileId: 'upload-1' })
+    await vi.waitFor(() => expect(FakeXhr.sent).toHaveLength(1))
+
+    // The abort rejects the chunk, the catch block only runs after the resume
+    expect(upload.pauseUpload('upload-1')).toBe(true)
+    expect(upload.resumeUpload('upload-1')).toBe(true)
+
+    await vi.waitFor(() => expect(FakeXhr.sent).toHaveLength(2))
+    const retry = FakeXhr.sent[1]
+    expect(retry?.headers['Upload-Offset']).toBe('0')
+    retry?.respond({ offset: 10, file: { url: '/files/notes.txt', filename: 'notes.txt' } })
+
+    await expect(uploaded).resolves.toMatchObject({ url: '/files/notes.txt' })
+    expect(notifier.error).not.toHaveBeenCalled()
+    app.unmount()
+  })
+})
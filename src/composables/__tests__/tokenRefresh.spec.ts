@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createApp, defineComponent, h } from 'vue'
+import type { ITokenProvider } from '../../interfaces/config.interface'
+import { provideChatConfig } from '../useChatConfig'
+import { useApi } from '../useApi'
+import { useSocket } from '../useSocket'
+
+// Sockets created by useSocket, one per connect()
+const sockets = vi.hoisted(() => [] as { url: string; token: string; disconnect: () => void }[])
+
+vi.mock('socket.io-client', () => ({
+  io: (url: string, options: { auth: { token: string } }) => {
+    const socket = {
+      url,
+      token: options.auth.token,
+      connected: false,
+      on: () => socket,
+      off: () => socket,
+      connect: () => socket,
+      disconnect: () => {
+        socket.connected = false
+      }
+    }
+    sockets.push(socket)
+    return socket
+  }
+}))
+
+const createToken = (userId: string, exp: number) => {
+  const encode = (value: object) => btoa(JSON.stringify(value))
+  return `${encode({ alg: 'none' })}.${encode({ sub: userId, exp })}.signature`
+}
+
+const createProvider = (token: string, refreshed: string): ITokenProvider => {
+  let current: string | null = token
+  return {
+    getToken: () => current,
+    setToken: vi.fn((next: string | null) => {
+      current = next
+    }),
+    refreshToken: vi.fn(async () => refreshed)
+  }
+}
+
+// App with one connected socket, the api of that app is returned
+const mountTenant = (url: string, tokenProvider: ITokenProvider) => {
+  let api: ReturnType<typeof useApi> | undefined
+  const app = createApp(defineComponent({
+    setup() {
+      api = useApi()
+      useSocket({ options: { autoConnect: false } }).connect()
+      return () => h('div')
+    }
+  }))
+  provideChatConfig(app, { apiBaseUrl: url, socketUrl: url, tokenProvider })
+  app.mount(document.createElement('div'))
+
+  if (!api) throw new Error('Tenant was not set up')
+  return { app, api }
+}
+
+describe('token refresh', () => {
+  beforeEach(() => {
+    sockets.length = 0
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('only reaches the sockets and provider of the app that refreshed', async () => {
+    const expired = Math.floor(Date.now() / 1000) - 60
+    const valid = Math.floor(Date.now() / 1000) + 3600
+    const providerA = createProvider(createToken('alice', expired), createToken('alice', valid))
+    const providerB = createProvider(createToken('bob', valid), createToken('bob', valid))
+
+    const tenantA = mountTenant('https://a.example.com', providerA)
+    const tenantB = mountTenant('https://b.example.com', providerB)
+    expect(sockets.map(s => s.url)).toEqual(['https://a.example.com', 'https://b.example.com'])
+
+    const token = await tenantA.api.getFreshToken()
+    expect(token).toBe(createToken('alice', valid))
+
+    // The socket of app A reconnects with its new token
+    await vi.advanceTimersByTimeAsync(1000)
+    const reconnected = sockets.slice(2)
+    expect(reconnected).toHaveLength(1)
+    expect(reconnected[0]?.url).toBe('https://a.example.com')
+    expect(reconnected[0]?.token).toBe(token)
+
+    // App B keeps its socket and its token
+    expect(providerB.refreshToken).not.toHaveBeenCalled()
+    expect(providerB.setToken).not.toHaveBeenCalled()
+    expect(providerB.getToken()).toBe(createToken('bob', valid))
+
+    tenantA.app.unmount()
+    tenantB.app.unmount()
+  })
+})
@@ -1,5 +1,16 @@
 import { ref } from 'vue'
-import { ElMessage } from 'element-plus'
+import { useChatConfig } from './useChatConfig'
+import { useNotifier } from './useNotifier'
+import { decodeJwtPayload, isTokenExpired } from '../utils/jwt'
+import { AuthError, createHttpError, toChatError } from '../utils/errors'
+import {
+  applyRequestInterceptors,
+  applyResponseInterceptors,
+  applyErrorInterceptors,
+  serializeBody
+} from '../utils/interceptors'
+import type { ITokenProvider } from '../interfaces/config.interface'
+import type { IApiRequest, IApiResponse } from '../interfaces/interceptor.interface'
 import type { IUser } from '../interfaces/user.interface'
 import type { IMessage } from '../interfaces/message.interface'
 import type { IConversation } from '../interfaces/conversation.interface'
@@ -11,6 +22,14 @@ export interface ApiConfig {
   headers?: Record<string, string>
 }
 
+export interface RequestOptions {
+  method?: string
+  headers?: Record<string, string>
+  body?: unknown
+  timeout?: number // Overrides ApiConfig.timeout, 0 disables it
+  keepalive?: boolean // Outlives the page (requests sent on pagehide)
+}
+
 export interface ApiResponse<T = any> {
   success: boolean
   data?: T
@@ -43,17 +62,47 @@ export interface FriendshipListResponse {
   totalPendingRequests: number
 }
 
+// Refresh tokens this long before they expire
+const TOKEN_EXPIRY_SKEW = 30000
+
+// Single-flight token refresh per token provider; requests issued meanwhile wait for it
+const pendingRefreshes = new WeakMap<ITokenProvider, Promise<string | null>>()
+// Listeners per token provider, a refresh in one app never reaches another app's sockets
+const tokenRefreshListeners = new WeakMap<ITokenProvider, Set<(token: string) => void>>()
+
+/**
+ * Listen for tokens refreshed through a token provider (useSocket reconnects with them)
+ *
+ * @param tokenProvider - Provider of the app the listener belongs to
+ * @param listener - Called with the new token
+ * @returns Function removing the listener
+ */
+export function onTokenRefreshed(tokenProvider: ITokenProvider, listener: (token: string) => void) {
+  let listeners = tokenRefreshListeners.get(tokenProvider)
+  if (!listeners) {
+    listeners = new Set()
+    tokenRefreshListeners.set(tokenProvider, listeners)
+  }
+  listeners.add(listener)
+  return () => {
+    tokenRefreshListeners.get(tokenProvider)?.delete(listener)
+  }
+}
+
 export function useApi(config?: ApiConfig) {
   const isLoading = ref(false)
   const error = ref<Error | null>(null)
 
-  // Get base URL from config or environment variable
-  const baseUrl = config?.baseUrl || import.meta.env.VITE_API_BASE_URL || ''
+  const chatConfig = useChatConfig()
+  const notify = useNotifier()
+
+  // Get base URL from config or the options passed to install()
+  const baseUrl = config?.baseUrl || chatConfig.apiBaseUrl
   const timeout = config?.timeout || 30000
 
-  // Get auth token from localStorage
+  // Get auth token from the configured token provider
   const getAuthToken = (): string | null => {
-    const token = localStorage.getItem('accessToken')
+    const token = chatConfig.tokenProvider.getToken()
     // Return null if token is empty or whitespace only
     if (!token || !token.trim()) {
       return null
@@ -61,39 +110,97 @@ export function useApi(config?: ApiConfig) {
     return token
   }
 
-  // Check if user has valid token
+  // Check if user has a usable token (expired tokens are refreshed by the next request)
   const hasValidToken = (): boolean => {
     const token = getAuthToken()
     if (!token) return false
 
-    try {
-      // Decode JWT to check expiration
-      const parts = token.split('.')
-      if (parts.length !== 3 || !parts[1]) return false
-
-      const payload = JSON.parse(atob(parts[1]))
-      const exp = payload.exp * 1000 // Convert to milliseconds
-      const now = Date.now()
-
-      // Check if token is expired
-      if (exp < now) {
-        console.warn('⚠️ Token expired')
-        localStorage.removeItem('accessToken')
-        localStorage.removeItem('user')
-        return false
+    if (!decodeJwtPayload(token)) {
+      console.error('Failed to validate token: malformed JWT')
+      return false
+    }
+    return true
+  }
+
+  // Clear auth data once the session cannot be recovered
+  const clearAuthData = () => {
+    chatConfig.tokenProvider.setToken?.(null)
+    localStorage.removeItem('auth_user')
+  }
+
+  // Ask the token provider or the backend for a new token
+  const requestNewToken = async (): Promise<string | null> => {
+    const { tokenProvider } = chatConfig
+    if (tokenProvider.refreshToken) {
+      return tokenProvider.refreshToken()
+    }
+
+    const currentToken = getAuthToken()
+    if (!currentToken) return null
+
+    // Plain fetch so a 401 here does not trigger another refresh
+    const response = await fetch(`${baseUrl}/api/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${currentToken}`
       }
+    })
+    if (!response.ok) return null
 
-      return true
-    } catch (error) {
-      console.error('Failed to validate token:', error)
-      return false
+    const data = await response.json().catch(() => ({}))
+    return data.token || data.accessToken || null
+  }
+
+  // Refresh the token once, however many requests ask for it at the same time
+  const refreshAuthToken = (): Promise<string | null> => {
+    const { tokenProvider } = chatConfig
+    const pending = pendingRefreshes.get(tokenProvider)
+    if (pending) return pending
+
+    console.log('🔄 [useApi] Refreshing auth token...')
+    const refresh = requestNewToken()
+      .catch((err) => {
+        console.error('Token refresh error:', err)
+        return null
+      })
+      .then((token) => {
+        if (token) {
+          tokenProvider.setToken?.(token)
+          tokenRefreshListeners.get(tokenProvider)?.forEach(listener => listener(token))
+          console.log('✅ [useApi] Auth token refreshed')
+        } else {
+          console.warn('⚠️ Token refresh failed, clearing auth data')
+          clearAuthData()
+        }
+        return token
+      })
+      .finally(() => {
+        pendingRefreshes.delete(tokenProvider)
+      })
+
+    pendingRefreshes.set(tokenProvider, refresh)
+    return refresh
+  }
+
+  // Wait for a running refresh and refresh tokens that are about to expire
+  const getFreshToken = async (): Promise<string | null> => {
+    const pending = pendingRefreshes.get(chatConfig.tokenProvider)
+    if (pending) {
+      await pending
+    }
+
+    const token = getAuthToken()
+    if (token && isTokenExpired(token, TOKEN_EXPIRY_SKEW)) {
+      return refreshAuthToken()
     }
+    return token
   }
 
-  // Create request headers
-  const createHeaders = (customHeaders?: Record<string, string>): HeadersInit => {
+  // Create request headers (the browser sets Content-Type of multipart bodies itself)
+  const createHeaders = (customHeaders?: Record<string, string>, isMultipart = false): Record<string, string> => {
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(isMultipart ? {} : { 'Content-Type': 'application/json' }),
       ...config?.headers,
       ...customHeaders,
     }
@@ -111,50 +218,88 @@ export function useApi(config?: ApiConfig) {
     return headers
   }
 
-  // Generic fetch wrapper with error handling
+  // Generic fetch wrapper: runs the interceptor chains, handles timeouts and 401 refresh
   const fetchWithTimeout = async <T = any>(
     url: string,
-    options: RequestInit = {}
+    options: RequestOptions = {},
+    isRetry = false
   ): Promise<T> => {
+    const usedToken = await getFreshToken()
+    const requestTimeout = options.timeout ?? timeout
     const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
+    const timeoutId = requestTimeout > 0 ? setTimeout(() => controller.abort(), requestTimeout) : undefined
+
+    let apiRequest: IApiRequest = {
+      method: options.method || 'GET',
+      url,
+      headers: createHeaders(options.headers, options.body instanceof FormData),
+      body: options.body
+    }
+    let apiResponse: IApiResponse
 
     try {
-      const response = await fetch(`${baseUrl}${url}`, {
-        ...options,
+      apiRequest = await applyRequestInterceptors(chatConfig.interceptors, apiRequest)
+
+      const response = await fetch(`${baseUrl}${apiRequest.url}`, {
+        method: apiRequest.method,
+        headers: apiRequest.headers,
+        body: serializeBody(apiRequest.body),
         signal: controller.signal,
-        headers: createHeaders(options.headers as Record<string, string>),
+        keepalive: options.keepalive,
       })
 
+      apiResponse = {
+        request: apiRequest,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        data: response.ok ? await response.json() : await response.json().catch(() => ({}))
+      }
+    } catch (err) {
+      // AbortError -> TimeoutError, failed fetch -> NetworkError
+      throw await applyErrorInterceptors(chatConfig.interceptors, toChatError(err), { request: apiRequest })
+    } finally {
       clearTimeout(timeoutId)
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        const errorMessage = errorData.message || `HTTP ${response.status}: ${response.statusText}`
-
-        // Handle 401 Unauthorized - clear auth data
-        if (response.status === 401) {
-          console.warn('⚠️ Authentication failed (401), clearing auth data')
-          localStorage.removeItem('auth_token')
-          localStorage.removeItem('auth_user')
-
-          // // Reload page to show login modal
-          // setTimeout(() => {
-          //   window.location.reload()
-          // }, 1000)
+    if (apiResponse.status < 200 || apiResponse.status >= 300) {
+      // Handle 401 Unauthorized - refresh the token once and replay the request
+      if (apiResponse.status === 401 && !isRetry && usedToken) {
+        // Another request may already have refreshed the token
+        const currentToken = getAuthToken()
+        const newToken = currentToken && currentToken !== usedToken
+          ? currentToken
+          : await refreshAuthToken()
+        if (newToken) {
+          console.log('🔁 [useApi] Replaying request after token refresh:', url)
+          return fetchWithTimeout<T>(url, options, true)
         }
-
-        throw new Error(errorMessage)
+      } else if (apiResponse.status === 401) {
+        console.warn('⚠️ Authentication failed (401), clearing auth data')
+        clearAuthData()
       }
 
-      const data = await response.json()
-      return data as T
-    } catch (err: any) {
-      if (err.name === 'AbortError') {
-        throw new Error('Request timeout')
-      }
-      throw err
+      const httpError = createHttpError(
+        apiResponse.status,
+        apiResponse.data,
+        apiResponse.headers,
+        `HTTP ${apiResponse.status}: ${apiResponse.statusText}`
+      )
+      throw await applyErrorInterceptors(chatConfig.interceptors, httpError, {
+        request: apiRequest,
+        response: apiResponse
+      })
     }
+
+    try {
+      apiResponse = await applyResponseInterceptors(chatConfig.interceptors, apiResponse)
+    } catch (err) {
+      throw await applyErrorInterceptors(chatConfig.interceptors, toChatError(err), {
+        request: apiRequest,
+        response: apiResponse
+      })
+    }
+    return apiResponse.data as T
   }
 
   // Generic request handler
@@ -162,22 +307,19 @@ export function useApi(config?: ApiConfig) {
     method: string,
     url: string,
     body?: any,
-    customHeaders?: Record<string, string>
+    customHeaders?: Record<string, string>,
+    options: Pick<RequestOptions, 'keepalive'> = {}
   ): Promise<T> => {
     isLoading.value = true
     error.value = null
 
     try {
-      const options: RequestInit = {
+      const data = await fetchWithTimeout<T>(url, {
         method,
         headers: customHeaders,
-      }
-
-      if (body) {
-        options.body = JSON.stringify(body)
-      }
-
-      const data = await fetchWithTimeout<T>(url, options)
+        body,
+        keepalive: options.keepalive,
+      })
       return data
     } catch (err: any) {
       error.value = err
@@ -205,8 +347,12 @@ export function useApi(config?: ApiConfig) {
     return request<T>('PATCH', url, body, headers)
   }
 
-  const del = async <T = any>(url: string, headers?: Record<string, string>): Promise<T> => {
-    return request<T>('DELETE', url, undefined, headers)
+  const del = async <T = any>(
+    url: string,
+    headers?: Record<string, string>,
+    options?: Pick<RequestOptions, 'keepalive'>
+  ): Promise<T> => {
+    return request<T>('DELETE', url, undefined, headers, options)
   }
 
   // === USER APIs ===
@@ -467,24 +613,12 @@ export function useApi(config?: ApiConfig) {
     error.value = null
 
     try {
-      const token = getAuthToken()
-      const headers: Record<string, string> = {}
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`
-      }
-
-      const response = await fetch(`${baseUrl}/api/upload`, {
+      // No timeout, large files may take longer than a regular request
+      return await fetchWithTimeout('/api/upload', {
         method: 'POST',
-        headers,
         body: formData,
+        timeout: 0,
       })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.message || `Upload failed: ${response.statusText}`)
-      }
-
-      return await response.json()
     } catch (err: any) {
       error.value = err
       console.error('File upload error:', err)
@@ -612,15 +746,19 @@ export function useApi(config?: ApiConfig) {
     })
   }
 
-  // Refresh auth token
+  // Refresh auth token (shares the refresh triggered by expired tokens and 401 responses)
   const refreshToken = async (): Promise<{ token: string }> => {
-    return post<{ token: string }>('/api/auth/refresh')
+    const token = await refreshAuthToken()
+    if (!token) {
+      throw new AuthError('Token refresh failed')
+    }
+    return { token }
   }
 
   // Logout
   const logout = async (): Promise<void> => {
     await post<void>('/api/auth/logout')
-    localStorage.removeItem('auth_token')
+    chatConfig.tokenProvider.setToken?.(null)
     localStorage.removeItem('auth_user')
   }
 
@@ -628,18 +766,12 @@ export function useApi(config?: ApiConfig) {
 
   // Show error message
   const showError = (message: string) => {
-    ElMessage.error({
-      message,
-      duration: 3000,
-    })
+    notify.error('api.error', message)
   }
 
   // Show success message
   const showSuccess = (message: string) => {
-    ElMessage.success({
-      message,
-      duration: 3000,
-    })
+    notify.success('api.success', message)
   }
 
   return {
@@ -656,6 +788,7 @@ export function useApi(config?: ApiConfig) {
 
     // Auth utilities
     getAuthToken,
+    getFreshToken,
     hasValidToken,
 
     // User APIs
@@ -1,6 +1,7 @@
 import { ref, computed } from 'vue'
-import { ElMessage } from 'element-plus'
 import { useApi } from './useApi'
+import { useNotifier } from './useNotifier'
+import { useChatConfig } from './useChatConfig'
 
 export interface AuthUser {
   id: string
@@ -13,7 +14,6 @@ export interface AuthUser {
 
 const currentUser = ref<AuthUser | null>(null)
 const isLoading = ref(false)
-const api = useApi()
 
 // Load user from localStorage on init
 const savedUser = localStorage.getItem('user')
@@ -27,6 +27,9 @@ if (savedUser) {
 }
 
 export function useAuth() {
+  const api = useApi()
+  const { tokenProvider } = useChatConfig()
+  const notify = useNotifier()
   const isAuthenticated = computed(() => currentUser.value !== null)
 
   // Handle Google login callback
@@ -74,9 +77,9 @@ export function useAuth() {
           token: backendData.accessToken // Save JWT token from backend
         }
 
-        // Save token to localStorage if provided
+        // Save token if provided
         if (user.token) {
-          localStorage.setItem('accessToken', user.token)
+          tokenProvider.setToken?.(user.token)
         }
       }
       // Fallback: Create demo user for ANY response
@@ -90,10 +93,7 @@ export function useAuth() {
           provider: 'google'
         }
 
-        ElMessage.warning({
-          message: 'Demo mode: Using mock user data',
-          duration: 3000
-        })
+        notify.warning('auth.demoMode', 'Demo mode: Using mock user data')
       }
 
       if (!user) {
@@ -110,29 +110,24 @@ export function useAuth() {
 
       // Only save token if it exists and is not empty
       if (user.token && user.token.trim()) {
-        localStorage.setItem('accessToken', user.token)
-        // Also save as auth_token for compatibility
-        localStorage.setItem('auth_token', user.token)
-        console.log('✅ Token saved to localStorage:', user.token.substring(0, 20) + '...')
+        tokenProvider.setToken?.(user.token)
+        console.log('✅ Token saved:', user.token.substring(0, 20) + '...')
       } else {
         console.warn('⚠️ No token received from backend, removing any existing token')
-        localStorage.removeItem('accessToken')
-        localStorage.removeItem('auth_token')
+        tokenProvider.setToken?.(null)
       }
 
       // Show success message (non-blocking)
-      ElMessage.success({
-        message: `Welcome back, ${user.name}!`,
-        duration: 3000
+      notify.success('auth.welcome', `Welcome back, ${user.name}!`, {
+        payload: { name: user.name }
       })
 
       // Return user immediately after saving to localStorage
       return user
     } catch (error: any) {
       console.error('Google login error:', error)
-      ElMessage.error({
-        message: `Login failed: ${error.message}`,
-        duration: 3000
+      notify.error('auth.loginFailed', `Login failed: ${error.message}`, {
+        payload: { error }
       })
       throw error
     } finally {
@@ -143,10 +138,7 @@ export function useAuth() {
   // Handle Google login error
   const handleGoogleLoginError = () => {
     isLoading.value = false
-    ElMessage.error({
-      message: 'Google login failed. Please try again.',
-      duration: 3000
-    })
+    notify.error('auth.googleLoginFailed', 'Google login failed. Please try again.')
   }
 
   // Sign out
@@ -161,14 +153,10 @@ export function useAuth() {
 
     currentUser.value = null
     localStorage.removeItem('user')
-    localStorage.removeItem('accessToken')
     localStorage.removeItem('auth_user')
-    localStorage.removeItem('auth_token')
+    tokenProvider.setToken?.(null)
 
-    ElMessage.success({
-      message: 'Successfully signed out',
-      duration: 3000
-    })
+    notify.success('auth.signedOut', 'Successfully signed out')
   }
 
   return {
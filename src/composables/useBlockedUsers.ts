@@ -1,6 +1,6 @@
 import { ref } from 'vue'
-import { ElMessage } from 'element-plus'
 import { useApi } from './useApi'
+import { useNotifier } from './useNotifier'
 import type { IFriendship } from '../interfaces/friendship.interface'
 
 // State
@@ -9,6 +9,7 @@ const isLoading = ref(false)
 
 export function useBlockedUsers() {
   const api = useApi()
+  const notify = useNotifier()
 
   /**
    * Get list of blocked users
@@ -25,7 +26,7 @@ export function useBlockedUsers() {
       return blockedUsers.value
     } catch (error: any) {
       console.error('Get blocked users error:', error)
-      ElMessage.error(error.message || 'Failed to load blocked users')
+      notify.error('blockedUsers.loadFailed', error.message || 'Failed to load blocked users', { payload: { error } })
       throw error
     } finally {
       isLoading.value = false
@@ -44,7 +45,7 @@ export function useBlockedUsers() {
    */
   const blockUser = async (userId: string) => {
     if (!userId) {
-      ElMessage.error('User ID is required')
+      notify.error('blockedUsers.userIdRequired', 'User ID is required')
       return false
     }
 
@@ -52,7 +53,7 @@ export function useBlockedUsers() {
     try {
       const data = await api.post('/api/friendship/block', { userId })
 
-      ElMessage.success('User blocked successfully')
+      notify.success('blockedUsers.blocked', 'User blocked successfully', { payload: { userId } })
 
       // Refresh blocked users list
       await getBlockedUsers()
@@ -63,11 +64,11 @@ export function useBlockedUsers() {
 
       // Handle specific error messages
       if (error.message.includes('Cannot block yourself')) {
-        ElMessage.error('You cannot block yourself')
+        notify.error('blockedUsers.cannotBlockSelf', 'You cannot block yourself')
       } else if (error.message.includes('User not found')) {
-        ElMessage.error('User not found')
+        notify.error('blockedUsers.userNotFound', 'User not found', { payload: { userId } })
       } else {
-        ElMessage.error(error.message || 'Failed to block user')
+        notify.error('blockedUsers.blockFailed', error.message || 'Failed to block user', { payload: { userId, error } })
       }
 
       return false
@@ -87,7 +88,7 @@ export function useBlockedUsers() {
    */
   const unblockUser = async (userId: string) => {
     if (!userId) {
-      ElMessage.error('User ID is required')
+      notify.error('blockedUsers.userIdRequired', 'User ID is required')
       return false
     }
 
@@ -95,7 +96,7 @@ export function useBlockedUsers() {
     try {
       await api.del(`/api/friendship/unblock/${userId}`)
 
-      ElMessage.success('User unblocked successfully')
+      notify.success('blockedUsers.unblocked', 'User unblocked successfully', { payload: { userId } })
 
       // Remove from local list
       blockedUsers.value = blockedUsers.value.filter(
@@ -108,11 +109,11 @@ export function useBlockedUsers() {
 
       // Handle specific error messages
       if (error.message.includes('User is not blocked')) {
-        ElMessage.error('User is not blocked')
+        notify.error('blockedUsers.notBlocked', 'User is not blocked', { payload: { userId } })
       } else if (error.message.includes('User not found')) {
-        ElMessage.error('User not found')
+        notify.error('blockedUsers.userNotFound', 'User not found', { payload: { userId } })
       } else {
-        ElMessage.error(error.message || 'Failed to unblock user')
+        notify.error('blockedUsers.unblockFailed', error.message || 'Failed to unblock user', { payload: { userId, error } })
       }
 
       return false
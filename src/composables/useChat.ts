@@ -1,72 +1,27 @@
 import { ref, computed } from 'vue'
-import { ElMessage } from 'element-plus'
 import { useSocket } from './useSocket'
+import { SocketEventEnum } from '../enums/socket.enum'
+import { createSocketError, type ChatError } from '../utils/errors'
+import type {
+  ISocketMessagePayload,
+  ISocketSendMessagePayload,
+  ISocketConversationUpdatedPayload,
+  IUserTypingEvent,
+  IMessageReadEvent
+} from '../interfaces/socket.interface'
 
 // Types
-interface ITypingUser {
-  userId: string
-  conversationId: string
-  isTyping: boolean
+interface ITypingUser extends IUserTypingEvent {
   timestamp: number
 }
 
-interface ISendMessageData {
-  conversationId: string
-  message: {
-    content: string
-    type: 'text' | 'image' | 'file' | 'system'
-    fileUrl?: string
-    fileName?: string
-    replyTo?: string
-  }
-}
-
-interface INewMessageData {
-  id: string
-  conversationId: string
-  senderId: string
-  content: string
-  type: 'text' | 'image' | 'file' | 'system'
-  fileUrl?: string
-  fileName?: string
-  readBy: string[]
-  replyTo?: string
-  isEdited: boolean
-  isDeleted: boolean
-  createdAt: Date
-  updatedAt: Date
-}
-
-interface IMessageReadData {
-  messageId: string
-  readBy: {
-    userId: string
-    readAt: Date
-  }[]
-}
-
-interface IConversationUpdatedData {
-  conversationId: string
-  lastMessage: INewMessageData
-  updatedAt: Date
-}
-
 // State
 const typingUsers = ref<Map<string, ITypingUser>>(new Map())
 const socketError = ref<string | null>(null)
 
-const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:1200'
-const socketUrl = import.meta.env.VITE_SOCKET_URL || apiBaseUrl
-
 export function useChat() {
-  const { socket, isConnected, connect, disconnect } = useSocket({
-    url: socketUrl,
-    options: {
-      auth: {
-        token: localStorage.getItem('accessToken') || ''
-      }
-    }
-  })
+  // Socket URL and token come from the options passed to install()
+  const { socket, isConnected, connect, disconnect, sendMessage: queueMessage } = useSocket()
 
   // Typing timeout for cleanup
   const typingTimeouts = new Map<string, ReturnType<typeof setTimeout>>()
@@ -79,7 +34,7 @@ export function useChat() {
       return
     }
 
-    socket.value.emit('join_conversation', { conversationId })
+    socket.value.emit(SocketEventEnum.JOIN_CONVERSATION, { conversationId })
     console.log('📥 Joined conversation:', conversationId)
   }
 
@@ -87,7 +42,7 @@ export function useChat() {
   const leaveConversation = (conversationId: string) => {
     if (!socket.value) return
 
-    socket.value.emit('leave_conversation', { conversationId })
+    socket.value.emit(SocketEventEnum.LEAVE_CONVERSATION, { conversationId })
     console.log('📤 Left conversation:', conversationId)
 
     // Clear typing indicators for this conversation
@@ -99,36 +54,32 @@ export function useChat() {
     }
   }
 
-  // Send message via WebSocket
-  const sendMessage = (data: ISendMessageData) => {
-    if (!socket.value || !isConnected.value) {
-      ElMessage.error('Not connected to chat server')
-      return
-    }
-
-    socket.value.emit('send_message', data)
-    console.log('📤 Sent message:', data)
+  // Send message via WebSocket (queued until the socket is connected)
+  const sendMessage = (data: ISocketSendMessagePayload) => {
+    const entry = queueMessage(data.conversationId, data.message)
+    console.log('📤 Queued message:', entry.clientId)
+    return entry
   }
 
   // Start typing indicator
   const startTyping = (conversationId: string) => {
     if (!socket.value || !isConnected.value) return
 
-    socket.value.emit('typing_start', { conversationId })
+    socket.value.emit(SocketEventEnum.TYPING_START, { conversationId })
   }
 
   // Stop typing indicator
   const stopTyping = (conversationId: string) => {
     if (!socket.value || !isConnected.value) return
 
-    socket.value.emit('typing_stop', { conversationId })
+    socket.value.emit(SocketEventEnum.TYPING_STOP, { conversationId })
   }
 
   // Mark message as read
   const markAsRead = (conversationId: string, messageId: string) => {
     if (!socket.value || !isConnected.value) return
 
-    socket.value.emit('mark_as_read', {
+    socket.value.emit(SocketEventEnum.MARK_AS_READ, {
       conversationId,
       messageId
     })
@@ -136,11 +87,11 @@ export function useChat() {
 
   // Setup event listeners
   const setupListeners = (callbacks: {
-    onNewMessage?: (message: INewMessageData) => void
-    onUserTyping?: (data: ITypingUser) => void
-    onMessageRead?: (data: IMessageReadData) => void
-    onConversationUpdated?: (data: IConversationUpdatedData) => void
-    onError?: (error: string) => void
+    onNewMessage?: (message: ISocketMessagePayload) => void
+    onUserTyping?: (data: IUserTypingEvent) => void
+    onMessageRead?: (data: IMessageReadEvent) => void
+    onConversationUpdated?: (data: ISocketConversationUpdatedPayload) => void
+    onError?: (error: ChatError) => void
   }) => {
     if (!socket.value) {
       console.warn('Socket not available, connecting...')
@@ -157,7 +108,7 @@ export function useChat() {
 
     // New message event
     if (callbacks.onNewMessage) {
-      socket.value.on('new_message', (message: INewMessageData) => {
+      socket.value.on(SocketEventEnum.NEW_MESSAGE, (message) => {
         console.log('📨 New message received:', message)
         callbacks.onNewMessage?.(message)
       })
@@ -165,7 +116,7 @@ export function useChat() {
 
     // User typing event
     if (callbacks.onUserTyping) {
-      socket.value.on('user_typing', (data: ITypingUser) => {
+      socket.value.on(SocketEventEnum.USER_TYPING, (data) => {
         console.log('⌨️ User typing:', data)
 
         const key = `${data.conversationId}-${data.userId}`
@@ -204,7 +155,7 @@ export function useChat() {
 
     // Message read event
     if (callbacks.onMessageRead) {
-      socket.value.on('message_read', (data: IMessageReadData) => {
+      socket.value.on(SocketEventEnum.MESSAGE_READ, (data) => {
         console.log('✓✓ Message read:', data)
         callbacks.onMessageRead?.(data)
       })
@@ -212,7 +163,7 @@ export function useChat() {
 
     // Conversation updated event
     if (callbacks.onConversationUpdated) {
-      socket.value.on('conversation_updated', (data: IConversationUpdatedData) => {
+      socket.value.on(SocketEventEnum.CONVERSATION_UPDATED, (data) => {
         console.log('🔄 Conversation updated:', data)
         callbacks.onConversationUpdated?.(data)
       })
@@ -220,11 +171,11 @@ export function useChat() {
 
     // Error event
     if (callbacks.onError) {
-      socket.value.on('error', (error: any) => {
+      socket.value.on(SocketEventEnum.ERROR, (payload) => {
+        const error = createSocketError(payload)
         console.error('❌ Socket error:', error)
-        const errorMessage = typeof error === 'string' ? error : error.message || 'Socket error'
-        socketError.value = errorMessage
-        callbacks.onError?.(errorMessage)
+        socketError.value = error.message
+        callbacks.onError?.(error)
       })
     }
   }
@@ -233,11 +184,11 @@ export function useChat() {
   const removeListeners = () => {
     if (!socket.value) return
 
-    socket.value.off('new_message')
-    socket.value.off('user_typing')
-    socket.value.off('message_read')
-    socket.value.off('conversation_updated')
-    socket.value.off('error')
+    socket.value.off(SocketEventEnum.NEW_MESSAGE)
+    socket.value.off(SocketEventEnum.USER_TYPING)
+    socket.value.off(SocketEventEnum.MESSAGE_READ)
+    socket.value.off(SocketEventEnum.CONVERSATION_UPDATED)
+    socket.value.off(SocketEventEnum.ERROR)
 
     console.log('🔇 Removed all chat listeners')
   }
@@ -0,0 +1,112 @@
+import { inject, hasInjectionContext, type App, type InjectionKey } from 'vue'
+import type {
+  IChatKitConfig,
+  IChatKitOptions,
+  ITokenProvider
+} from '../interfaces/config.interface'
+import { createElementPlusNotifier } from '../utils/notifiers'
+import { DEFAULT_RECORDING_MIME_TYPES } from '../utils/audio'
+
+export const CHAT_CONFIG_KEY: InjectionKey<IChatKitConfig> = Symbol('vue3-chat-uikit:config')
+
+// Default token provider, keeps the keys the kit has always used
+export const localStorageTokenProvider: ITokenProvider = {
+  getToken: () => {
+    const token = localStorage.getItem('accessToken') || localStorage.getItem('auth_token')
+    // Return null if token is empty or whitespace only
+    return token && token.trim() ? token : null
+  },
+  setToken: (token) => {
+    if (token) {
+      localStorage.setItem('accessToken', token)
+      localStorage.setItem('auth_token', token)
+    } else {
+      localStorage.removeItem('accessToken')
+      localStorage.removeItem('auth_token')
+    }
+  }
+}
+
+// Resolve options with their defaults
+export function createChatConfig(options: IChatKitOptions = {}): IChatKitConfig {
+  const apiBaseUrl = options.apiBaseUrl || ''
+
+  return {
+    apiBaseUrl,
+    socketUrl: options.socketUrl || apiBaseUrl,
+    tokenProvider: options.tokenProvider || localStorageTokenProvider,
+    storageAdapter: options.storageAdapter,
+    uploadEndpoints: {
+      image: '/api/upload/image',
+      video: '/api/upload/video',
+      audio: '/api/upload/audio',
+      document: '/api/upload/document',
+      file: '/api/upload/file',
+      supportedTypes: '/api/upload/supported-types',
+      resumable: '/api/upload/resumable',
+      ...options.uploadEndpoints
+    },
+    upload: {
+      resumableThreshold: 20 * 1024 * 1024,
+      chunkSize: 5 * 1024 * 1024,
+      maxChunkRetries: 3,
+      retryDelay: 1000,
+      storageKey: 'chat_upload_sessions',
+      concurrency: 3,
+      ...options.upload
+    },
+    imageProcessing: {
+      enabled: true,
+      maxDimension: 2048,
+      quality: 0.85,
+      format: 'image/webp',
+      thumbnailSize: 480,
+      thumbnailQuality: 0.7,
+      skipTypes: ['image/gif', 'image/svg+xml'],
+      ...options.imageProcessing
+    },
+    voice: {
+      mimeTypes: DEFAULT_RECORDING_MIME_TYPES,
+      waveformBars: 64,
+      ...options.voice
+    },
+    features: {
+      socket: true,
+      offlineCache: true,
+      ...options.features
+    },
+    interceptors: {
+      request: options.interceptors?.request || [],
+      response: options.interceptors?.response || [],
+      error: options.interceptors?.error || []
+    },
+    notifier: options.notifier || createElementPlusNotifier(),
+    messageEditWindow: options.messageEditWindow ?? 15 * 60 * 1000,
+    markdown: options.markdown || {},
+    messageRenderers: options.messageRenderers || []
+  }
+}
+
+// Used without an installed app (or outside of an injection context)
+const defaultConfig = createChatConfig()
+
+// Provide the config to every component of an app
+export function provideChatConfig(app: App, options: IChatKitOptions = {}): IChatKitConfig {
+  const config = createChatConfig(options)
+  app.provide(CHAT_CONFIG_KEY, config)
+  return config
+}
+
+/**
+ * Get the config of the current app
+ *
+ * Inside setup (or app.runWithContext) the config provided by install() of the
+ * owning app is injected, so apps on one page never see each other's options;
+ * elsewhere the defaults are returned.
+ */
+export function useChatConfig(): IChatKitConfig {
+  if (hasInjectionContext()) {
+    return inject(CHAT_CONFIG_KEY, defaultConfig)
+  }
+  return defaultConfig
+}
@@ -1,6 +1,7 @@
 import { ref, computed } from 'vue'
-import { ElMessage } from 'element-plus'
 import { useApi } from './useApi'
+import { useNotifier } from './useNotifier'
+import { usePersistence } from './usePersistence'
 import type {
   IConversation,
   ICreateConversationRequest,
@@ -18,10 +19,39 @@ const userCache = ref<Map<string, any>>(new Map()) // Cache for user details
 
 export function useConversation() {
   const api = useApi()
+  const notify = useNotifier()
+  const persistence = usePersistence()
+
+  // Write the conversation list through to the offline cache
+  const persistConversations = () => {
+    persistence.write('conversations', 'list', () => conversations.value)
+  }
+
+  // Write the user cache through to the offline cache (Maps are stored as entries)
+  const persistUserCache = () => {
+    persistence.write('users', 'cache', () => Array.from(userCache.value.entries()))
+  }
+
+  // Load the cached conversation list and user cache (data already loaded from the API wins)
+  const hydrateConversations = async () => {
+    const [cachedConversations, cachedUsers] = await Promise.all([
+      persistence.read<IConversation[]>('conversations', 'list'),
+      persistence.read<Array<[string, unknown]>>('users', 'cache')
+    ])
+
+    if (cachedConversations && conversations.value.length === 0) {
+      conversations.value = cachedConversations
+    }
+    if (cachedUsers && userCache.value.size === 0) {
+      userCache.value = new Map(cachedUsers)
+    }
+    console.log(`💾 Hydrated ${cachedConversations?.length || 0} conversations from cache`)
+  }
 
   // Enrich conversations with user details from cache (friends list, messages, etc.)
   const enrichConversationsWithUserDetails = (userMap: Map<string, any>) => {
     userCache.value = userMap
+    persistUserCache()
 
     // Update all conversations with cached user details
     conversations.value = conversations.value.map(conv => {
@@ -45,6 +75,7 @@ export function useConversation() {
         participants: enrichedParticipants
       }
     })
+    persistConversations()
   }
 
   // Get all conversations
@@ -149,6 +180,7 @@ export function useConversation() {
       })
 
       conversations.value = adaptedConversations
+      persistConversations()
 
       return {
         conversations: adaptedConversations,
@@ -159,7 +191,7 @@ export function useConversation() {
       } as IConversationListResponse
     } catch (error: any) {
       console.error('Get conversations error:', error)
-      ElMessage.error(error.message || 'Failed to load conversations')
+      notify.error('conversation.loadListFailed', error.message || 'Failed to load conversations', { payload: { error } })
       throw error
     } finally {
       isLoading.value = false
@@ -228,6 +260,7 @@ export function useConversation() {
       })
 
       conversations.value = adaptedConversations
+      persistConversations()
 
       return {
         conversations: adaptedConversations,
@@ -238,7 +271,7 @@ export function useConversation() {
       } as IConversationListResponse
     } catch (error: any) {
       console.error('Get detailed conversations error:', error)
-      ElMessage.error(error.message || 'Failed to load conversations')
+      notify.error('conversation.loadListFailed', error.message || 'Failed to load conversations', { payload: { error } })
       throw error
     } finally {
       isLoading.value = false
@@ -256,11 +289,11 @@ export function useConversation() {
 
       const data = await api.post('/api/chat/conversations', request)
 
-      ElMessage.success(
-        request.type === 'private'
-          ? 'Chat created successfully'
-          : 'Group chat created successfully'
-      )
+      if (request.type === 'private') {
+        notify.success('conversation.chatCreated', 'Chat created successfully')
+      } else {
+        notify.success('conversation.groupCreated', 'Group chat created successfully')
+      }
 
       // Refresh conversations list
       await getConversations()
@@ -271,13 +304,13 @@ export function useConversation() {
 
       // Handle specific errors
       if (error.message.includes('only chat with your friends')) {
-        ElMessage.error('You can only chat with your friends')
+        notify.error('conversation.friendsOnly', 'You can only chat with your friends')
       } else if (error.message.includes('at least 3 participants')) {
-        ElMessage.error('Group chats need at least 3 people')
+        notify.error('conversation.groupTooSmall', 'Group chats need at least 3 people')
       } else if (error.message.includes('only add friends')) {
-        ElMessage.error('You can only add friends to group chats')
+        notify.error('conversation.groupFriendsOnly', 'You can only add friends to group chats')
       } else {
-        ElMessage.error(error.message || 'Failed to create conversation')
+        notify.error('conversation.createFailed', error.message || 'Failed to create conversation', { payload: { error } })
       }
 
       throw error
@@ -292,7 +325,7 @@ export function useConversation() {
       return await api.get(`/api/chat/conversations/${conversationId}`)
     } catch (error: any) {
       console.error('Get conversation error:', error)
-      ElMessage.error(error.message || 'Failed to load conversation')
+      notify.error('conversation.loadFailed', error.message || 'Failed to load conversation', { payload: { conversationId, error } })
       throw error
     }
   }
@@ -303,10 +336,11 @@ export function useConversation() {
     try {
       await api.del(`/api/chat/conversations/${conversationId}`)
 
-      ElMessage.success('Conversation deleted')
+      notify.success('conversation.deleted', 'Conversation deleted', { payload: { conversationId } })
 
       // Remove from list
       conversations.value = conversations.value.filter(c => c._id !== conversationId)
+      persistConversations()
       if (activeConversation.value?._id === conversationId) {
         activeConversation.value = null
       }
@@ -314,13 +348,20 @@ export function useConversation() {
       return true
     } catch (error: any) {
       console.error('Delete conversation error:', error)
-      ElMessage.error(error.message || 'Failed to delete conversation')
+      notify.error('conversation.deleteFailed', error.message || 'Failed to delete conversation', { payload: { conversationId, error } })
       throw error
     } finally {
       isLoading.value = false
     }
   }
 
+  // Forget the conversations and users of the signed-in user, the cache is kept
+  const resetConversations = () => {
+    conversations.value = []
+    activeConversation.value = null
+    userCache.value = new Map()
+  }
+
   // Set active conversation
   const setActiveConversation = (conversation: IConversation | null) => {
     console.log('🎯 Setting active conversation:', conversation?._id, conversation)
@@ -350,6 +391,7 @@ export function useConversation() {
         const timeB = b.lastMessageAt ? new Date(b.lastMessageAt).getTime() : 0
         return timeB - timeA
       })
+      persistConversations()
 
       console.log('✅ Conversation last message updated:', conversationId, conversation.lastMessage)
     } else {
@@ -357,6 +399,15 @@ export function useConversation() {
     }
   }
 
+  // Flag conversations with an unseen mention of the current user
+  const setConversationMentioned = (conversationId: string, mentioned: boolean) => {
+    const conversation = conversations.value.find(c => c._id === conversationId)
+    if (!conversation || !!conversation.mentionedMe === mentioned) return
+
+    conversation.mentionedMe = mentioned
+    persistConversations()
+  }
+
   // Computed
   const privateConversations = computed(() =>
     conversations.value.filter(c => c.type === 'private')
@@ -388,6 +439,9 @@ export function useConversation() {
     deleteConversation,
     setActiveConversation,
     enrichConversationsWithUserDetails,
-    updateConversationLastMessage
+    updateConversationLastMessage,
+    setConversationMentioned,
+    hydrateConversations,
+    resetConversations
   }
 }
@@ -1,6 +1,27 @@
-import { ref } from 'vue'
-import { ElMessage } from 'element-plus'
+import { ref, computed } from 'vue'
 import { useApi } from './useApi'
+import { useNotifier } from './useNotifier'
+import { useChatConfig } from './useChatConfig'
+import { useImageProcessor } from './useImageProcessor'
+import {
+  applyRequestInterceptors,
+  applyResponseInterceptors,
+  applyErrorInterceptors,
+  serializeBody
+} from '../utils/interceptors'
+import {
+  NetworkError,
+  ServerError,
+  CancelledError,
+  createHttpError,
+  isChatError,
+  toChatError,
+  type ChatError
+} from '../utils/errors'
+import { ChatErrorKindEnum } from '../enums/error.enum'
+import type { IApiRequest, IApiResponse } from '../interfaces/interceptor.interface'
+import type { IAttachment } from '../interfaces/message.interface'
+import type { IProcessedImage } from '../interfaces/image.interface'
 
 export interface UploadedFileInfo {
   id: string
@@ -10,14 +31,67 @@ export interface UploadedFileInfo {
   size: number
   mimeType: string
   type: 'image' | 'video' | 'audio' | 'document' | 'file'
+  width?: number // Images, after processing
+  height?: number
+  thumbnailUrl?: string // Server thumbnail, or the uploaded processing thumbnail
 }
 
+export type UploadStatus = 'pending' | 'processing' | 'uploading' | 'paused' | 'success' | 'error' | 'cancelled'
+
 export interface UploadProgress {
   fileId: string
   filename: string
   progress: number
-  status: 'pending' | 'uploading' | 'success' | 'error'
+  status: UploadStatus
   error?: string
+  bytesSent: number
+  totalBytes: number
+  speed: number // Bytes per second, smoothed
+  eta?: number // Seconds left, unknown until the speed is measured
+  resumable: boolean // Chunked upload, can be paused and resumed
+}
+
+// Chunked upload session, persisted so it can be resumed after a reload
+export interface IUploadSession {
+  uploadId: string
+  fingerprint: string // Name, size, modification time and category of the file
+  fileName: string
+  size: number
+  offset: number // Bytes the server confirmed
+  createdAt: number
+}
+
+// Outcome of one file of uploadFiles
+export type IUploadResult =
+  | { fileId: string; file: File; status: 'success'; info: UploadedFileInfo }
+  | { fileId: string; file: File; status: 'error' | 'cancelled'; error: ChatError }
+
+// Aggregate of the uploads in uploadProgressMap (failed and cancelled ones excluded)
+export interface IUploadSummary {
+  files: number
+  queued: number // Waiting for a free slot
+  active: number // Uploading or paused
+  bytesSent: number
+  totalBytes: number
+  progress: number // 0-100
+  speed: number // Bytes per second, all running uploads together
+  eta?: number // Seconds left
+}
+
+export interface IUploadFilesOptions {
+  onProgress?: (fileId: string, progress: number) => void
+  onFileComplete?: (file: UploadedFileInfo) => void
+  category?: 'image' | 'video' | 'audio' | 'document' | 'file'
+  fileIds?: string[] // IDs of the files, by index (generated when omitted)
+  priority?: number | ((file: File, index: number) => number) // Higher starts first, same priority keeps the file order
+}
+
+export interface IUploadOptions {
+  onProgress?: (progress: number) => void
+  category?: 'image' | 'video' | 'audio' | 'document' | 'file'
+  fileId?: string // ID used by cancelUpload/pauseUpload/resumeUpload, generated when omitted
+  resumable?: boolean // Chunked upload, defaults to files from upload.resumableThreshold
+  processImage?: boolean // Resize and re-encode images first, defaults to imageProcessing.enabled
 }
 
 export interface SupportedFileTypes {
@@ -27,16 +101,182 @@ export interface SupportedFileTypes {
   documents: string[]
 }
 
+// Upload response, field names vary between backend versions
+interface IUploadResponse {
+  url?: string
+  fileUrl?: string
+  filename?: string
+  fileName?: string
+  size?: number
+  mimeType?: string
+  thumbnailUrl?: string
+  width?: number
+  height?: number
+}
+
+// Response of the resumable endpoint (create, status and chunk requests)
+interface IResumableResponse {
+  uploadId?: string
+  offset?: number
+  file?: IUploadResponse // Set once the last byte is stored
+}
+
+// Request and response of the current attempt, handed to the error interceptors
+interface IUploadAttempt {
+  request: IApiRequest
+  response?: IApiResponse
+}
+
+// Upload waiting in the shared queue
+interface IQueuedUpload {
+  fileId: string
+  filename: string
+  priority: number
+  sequence: number // Enqueue order, keeps FIFO within a priority
+  start: () => Promise<UploadedFileInfo>
+  resolve: (info: UploadedFileInfo) => void
+  reject: (error: unknown) => void
+}
+
+// Controls of a running upload
+interface IActiveUpload {
+  xhr: XMLHttpRequest | null
+  uploadId?: string
+  fingerprint?: string
+  cancelled: boolean
+  paused: boolean
+  resume: (() => void) | null // Ends the current wait (paused or offline)
+  sampleAt: number // Last speed sample
+  sampleBytes: number
+}
+
+// Sessions older than this are dropped, backends expire them too
+const SESSION_TTL = 24 * 60 * 60 * 1000
+// Minimum interval between two speed samples
+const SPEED_SAMPLE_INTERVAL = 500
+
+// Convert XMLHttpRequest.getAllResponseHeaders() into Headers
+const parseResponseHeaders = (rawHeaders: string): Headers => {
+  const headers = new Headers()
+  rawHeaders.trim().split(/[\r\n]+/).forEach((line) => {
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      headers.append(line.substring(0, separator).trim(), line.substring(separator + 1).trim())
+    }
+  })
+  return headers
+}
+
+const loadSessions = (storageKey: string): IUploadSession[] => {
+  try {
+    const raw = localStorage.getItem(storageKey)
+    const sessions = raw ? (JSON.parse(raw) as IUploadSession[]) : []
+    return sessions.filter(s => Date.now() - s.createdAt < SESSION_TTL)
+  } catch (err) {
+    console.error('Failed to load upload sessions:', err)
+    return []
+  }
+}
+
+const saveSessions = (storageKey: string, sessions: IUploadSession[]) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(sessions))
+  } catch (err) {
+    console.error('Failed to persist upload sessions:', err)
+  }
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+const generateUploadId = () => `${Date.now()}-${Math.random().toString(36).substring(7)}`
+
 const uploadProgressMap = ref<Map<string, UploadProgress>>(new Map())
 const isUploading = ref(false)
+const activeUploads = new Map<string, IActiveUpload>()
+
+// Shared upload queue, every useFileUpload() instance feeds the same slots
+const uploadQueue: IQueuedUpload[] = []
+let runningUploads = 0
+let queueSequence = 0
+
+// Start queued uploads while slots are free
+const pumpQueue = (concurrency: number) => {
+  while (runningUploads < Math.max(1, concurrency) && uploadQueue.length > 0) {
+    uploadQueue.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence)
+    const next = uploadQueue.shift()
+    if (!next) return
+
+    runningUploads++
+    next.start()
+      .then(next.resolve, next.reject)
+      .finally(() => {
+        runningUploads--
+        pumpQueue(concurrency)
+      })
+  }
+}
+
+const uploadSummary = computed<IUploadSummary>(() => {
+  const uploads = Array.from(uploadProgressMap.value.values())
+    .filter(p => p.status !== 'error' && p.status !== 'cancelled')
+
+  const bytesSent = uploads.reduce((sum, p) => sum + p.bytesSent, 0)
+  const totalBytes = uploads.reduce((sum, p) => sum + p.totalBytes, 0)
+  const speed = uploads
+    .filter(p => p.status === 'uploading')
+    .reduce((sum, p) => sum + p.speed, 0)
+
+  return {
+    files: uploads.length,
+    queued: uploads.filter(p => p.status === 'pending').length,
+    active: uploads.filter(p => ['processing', 'uploading', 'paused'].includes(p.status)).length,
+    bytesSent,
+    totalBytes,
+    progress: totalBytes ? Math.min(100, Math.round((bytesSent / totalBytes) * 100)) : 0,
+    speed,
+    eta: speed > 0 ? Math.ceil((totalBytes - bytesSent) / speed) : undefined
+  }
+})
+
+/**
+ * Attachment of a message for an uploaded file
+ *
+ * @param info - Result of uploadFile / uploadFiles
+ * @returns Attachment with the image dimensions and thumbnail when known
+ */
+export function toAttachment(info: UploadedFileInfo): IAttachment {
+  return {
+    id: info.id,
+    name: info.originalName,
+    url: info.url,
+    mimeType: info.mimeType,
+    size: info.size,
+    width: info.width,
+    height: info.height,
+    thumbnailUrl: info.thumbnailUrl
+  }
+}
 
+/**
+ * File uploads with progress, cancellation and resumable chunked uploads
+ *
+ * Files from upload.resumableThreshold are sent in chunks to uploadEndpoints.resumable:
+ * - POST   {resumable}      { filename, size, mimeType, category, fingerprint } -> { uploadId, offset }
+ * - GET    {resumable}/:id  -> { offset, file? }
+ * - PATCH  {resumable}/:id  chunk body, Upload-Offset header -> { offset, file? }
+ * - DELETE {resumable}/:id  when cancelled
+ * The response that stores the last byte carries the uploaded file.
+ */
 export function useFileUpload() {
   const api = useApi()
+  const notify = useNotifier()
+  const chatConfig = useChatConfig()
+  const { processImage } = useImageProcessor()
 
   // Get supported file types from server
   const getSupportedTypes = async (): Promise<SupportedFileTypes | null> => {
     try {
-      const data = await api.get<SupportedFileTypes>('/api/upload/supported-types')
+      const data = await api.get<SupportedFileTypes>(chatConfig.uploadEndpoints.supportedTypes)
       return data
     } catch (error: any) {
       console.error('Failed to get supported types:', error)
@@ -64,139 +304,524 @@ export function useFileUpload() {
 
   // Get upload endpoint based on file type
   const getUploadEndpoint = (category: string): string => {
-    const endpoints: Record<string, string> = {
-      image: '/api/upload/image',
-      video: '/api/upload/video',
-      audio: '/api/upload/audio',
-      document: '/api/upload/document',
-      file: '/api/upload/file'
+    const endpoints: Record<string, string> = { ...chatConfig.uploadEndpoints }
+    return endpoints[category] || chatConfig.uploadEndpoints.file
+  }
+
+  // Build a request with the current token and let the interceptors adjust it
+  const buildRequest = async (
+    method: IApiRequest['method'],
+    url: string,
+    body: IApiRequest['body'],
+    headers: Record<string, string> = {}
+  ): Promise<IApiRequest> => {
+    const token = await api.getFreshToken()
+    return applyRequestInterceptors(chatConfig.interceptors, {
+      method,
+      url,
+      headers: token ? { ...headers, 'Authorization': `Bearer ${token}` } : headers,
+      body
+    })
+  }
+
+  // Send a request with XMLHttpRequest to track upload progress, abortable through control.xhr
+  const sendWithProgress = (
+    attempt: IUploadAttempt,
+    control: IActiveUpload,
+    onUploadProgress: (loaded: number) => void
+  ): Promise<IApiResponse> => {
+    const sentRequest = attempt.request
+
+    return new Promise<IApiResponse>((resolve, reject) => {
+      // Cancelled while the request was built (token refresh, interceptors)
+      if (control.cancelled) {
+        reject(new CancelledError('Upload cancelled'))
+        return
+      }
+
+      const xhr = new XMLHttpRequest()
+      control.xhr = xhr
+
+      // Track upload progress
+      xhr.upload.addEventListener('progress', (e) => {
+        if (e.lengthComputable) {
+          onUploadProgress(e.loaded)
+        }
+      })
+
+      // Handle completion
+      xhr.addEventListener('load', () => {
+        control.xhr = null
+        let data: unknown
+        try {
+          data = JSON.parse(xhr.responseText)
+        } catch {
+          data = undefined
+        }
+
+        const response: IApiResponse = {
+          request: sentRequest,
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+          data
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300) {
+          if (data === undefined) {
+            reject(new ServerError('Failed to parse response', { status: xhr.status }))
+            return
+          }
+          resolve(response)
+        } else {
+          attempt.response = response
+          reject(createHttpError(xhr.status, data, response.headers, `Upload failed with status ${xhr.status}`))
+        }
+      })
+
+      // Handle errors
+      xhr.addEventListener('error', () => {
+        control.xhr = null
+        reject(new NetworkError('Network error during upload'))
+      })
+
+      // Cancelled or paused
+      xhr.addEventListener('abort', () => {
+        control.xhr = null
+        reject(new CancelledError('Upload cancelled'))
+      })
+
+      // Open connection and send
+      xhr.open(sentRequest.method, `${chatConfig.apiBaseUrl}${sentRequest.url}`)
+
+      // Set headers
+      Object.entries(sentRequest.headers).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value)
+      })
+
+      xhr.send(serializeBody(sentRequest.body) as XMLHttpRequestBodyInit)
+    })
+  }
+
+  // Bytes sent, percentage, smoothed speed and ETA
+  const reportBytes = (
+    progressData: UploadProgress,
+    control: IActiveUpload,
+    bytesSent: number,
+    onProgress?: (progress: number) => void
+  ) => {
+    const now = Date.now()
+    const elapsed = now - control.sampleAt
+    if (elapsed >= SPEED_SAMPLE_INTERVAL && bytesSent >= control.sampleBytes) {
+      const speed = ((bytesSent - control.sampleBytes) / elapsed) * 1000
+      progressData.speed = progressData.speed ? progressData.speed * 0.7 + speed * 0.3 : speed
+      control.sampleAt = now
+      control.sampleBytes = bytesSent
+    }
+
+    progressData.bytesSent = bytesSent
+    progressData.progress = progressData.totalBytes
+      ? Math.min(100, Math.round((bytesSent / progressData.totalBytes) * 100))
+      : 0
+    progressData.eta = progressData.speed > 0
+      ? Math.ceil((progressData.totalBytes - bytesSent) / progressData.speed)
+      : undefined
+
+    onProgress?.(progressData.progress)
+  }
+
+  // Restart speed sampling after a pause, a reconnect or a retry
+  const resetSpeed = (progressData: UploadProgress, control: IActiveUpload, bytesSent: number) => {
+    control.sampleAt = Date.now()
+    control.sampleBytes = bytesSent
+    progressData.speed = 0
+    progressData.eta = undefined
+  }
+
+  // cancelUpload() only flags the upload, every step checks the flag after awaiting
+  const throwIfCancelled = (control: IActiveUpload) => {
+    if (control.cancelled) throw new CancelledError('Upload cancelled')
+  }
+
+  // Wait until resumeUpload() or cancelUpload() when paused, returns whether it waited
+  const waitWhilePaused = async (control: IActiveUpload, progressData: UploadProgress): Promise<boolean> => {
+    if (!control.paused) return false
+
+    progressData.status = 'paused'
+    await new Promise<void>(resolve => {
+      control.resume = resolve
+    })
+    control.resume = null
+    throwIfCancelled(control)
+
+    progressData.status = 'uploading'
+    return true
+  }
+
+  // Wait for the browser to come back online (or for cancelUpload())
+  const waitForOnline = async (control: IActiveUpload, progressData: UploadProgress) => {
+    progressData.status = 'paused'
+    progressData.error = 'Waiting for connection'
+    console.log(`📴 Upload ${progressData.filename} waiting for connection`)
+
+    await new Promise<void>(resolve => {
+      const onOnline = () => {
+        window.removeEventListener('online', onOnline)
+        resolve()
+      }
+      window.addEventListener('online', onOnline)
+      control.resume = () => {
+        window.removeEventListener('online', onOnline)
+        resolve()
+      }
+    })
+    control.resume = null
+    throwIfCancelled(control)
+
+    progressData.status = 'uploading'
+    progressData.error = undefined
+  }
+
+  // Upload a whole file in a single request
+  const uploadWhole = async (
+    file: File,
+    endpoint: string,
+    attempt: IUploadAttempt,
+    control: IActiveUpload,
+    progressData: UploadProgress,
+    onProgress?: (progress: number) => void
+  ): Promise<IUploadResponse> => {
+    // Create form data
+    const formData = new FormData()
+    formData.append('file', file)
+
+    attempt.request = await buildRequest('POST', endpoint, formData)
+    const response = await sendWithProgress(attempt, control, (loaded) => {
+      reportBytes(progressData, control, Math.min(loaded, file.size), onProgress)
+    })
+
+    const { data } = await applyResponseInterceptors(chatConfig.interceptors, response)
+    return data as IUploadResponse
+  }
+
+  // Upload the processing thumbnail when the server made none, a missing thumbnail does not fail the upload
+  const uploadThumbnail = async (
+    thumbnail: File,
+    endpoint: string,
+    control: IActiveUpload
+  ): Promise<string | undefined> => {
+    const formData = new FormData()
+    formData.append('file', thumbnail)
+
+    const attempt: IUploadAttempt = { request: await buildRequest('POST', endpoint, formData) }
+    try {
+      const response = await sendWithProgress(attempt, control, () => {})
+      const { data } = await applyResponseInterceptors(chatConfig.interceptors, response)
+      const uploaded = data as IUploadResponse
+      return uploaded.url || uploaded.fileUrl || undefined
+    } catch (err) {
+      if (control.cancelled) throw err
+      console.warn(`⚠️ Could not upload the thumbnail ${thumbnail.name}:`, err)
+      return undefined
+    }
+  }
+
+  // Sessions that can be resumed by uploading the same file again (e.g. after a reload)
+  const getResumableSessions = (): IUploadSession[] => {
+    return loadSessions(chatConfig.upload.storageKey)
+  }
+
+  const storeSession = (session: IUploadSession) => {
+    const sessions = loadSessions(chatConfig.upload.storageKey).filter(s => s.fingerprint !== session.fingerprint)
+    saveSessions(chatConfig.upload.storageKey, [...sessions, session])
+  }
+
+  const forgetSession = (fingerprint: string) => {
+    const sessions = loadSessions(chatConfig.upload.storageKey)
+    saveSessions(chatConfig.upload.storageKey, sessions.filter(s => s.fingerprint !== fingerprint))
+  }
+
+  // Drop the stored and the server session of a cancelled chunked upload
+  const discardSession = (control: IActiveUpload) => {
+    if (control.fingerprint) forgetSession(control.fingerprint)
+    if (control.uploadId) {
+      api.del(`${chatConfig.uploadEndpoints.resumable}/${control.uploadId}`).catch((err) => {
+        console.warn('Failed to discard upload session:', err)
+      })
+    }
+  }
+
+  // Bytes the server has stored, and the file once complete
+  const fetchSessionStatus = async (uploadId: string): Promise<IResumableResponse> => {
+    return api.get<IResumableResponse>(`${chatConfig.uploadEndpoints.resumable}/${uploadId}`)
+  }
+
+  // Resume the stored session of this file, or start a new one
+  const openSession = async (
+    file: File,
+    category: string,
+    fingerprint: string
+  ): Promise<IUploadSession & { file?: IUploadResponse }> => {
+    const stored = getResumableSessions().find(s => s.fingerprint === fingerprint)
+    if (stored) {
+      try {
+        const status = await fetchSessionStatus(stored.uploadId)
+        console.log(`⏯️ Resuming upload ${file.name} at byte ${status.offset ?? 0}`)
+        return { ...stored, offset: status.offset ?? 0, file: status.file }
+      } catch (err) {
+        // Expired or unknown session, start over
+        console.warn('Stored upload session is gone, starting a new one:', err)
+        forgetSession(fingerprint)
+      }
+    }
+
+    const created = await api.post<IResumableResponse>(chatConfig.uploadEndpoints.resumable, {
+      filename: file.name,
+      size: file.size,
+      mimeType: file.type,
+      category,
+      fingerprint
+    })
+    if (!created.uploadId) {
+      throw new ServerError('Upload session was not created')
+    }
+
+    const session: IUploadSession = {
+      uploadId: created.uploadId,
+      fingerprint,
+      fileName: file.name,
+      size: file.size,
+      offset: created.offset ?? 0,
+      createdAt: Date.now()
+    }
+    storeSession(session)
+    return session
+  }
+
+  // Send one chunk at offset, returns the offset confirmed by the server
+  const sendChunk = async (
+    uploadId: string,
+    chunk: Blob,
+    offset: number,
+    attempt: IUploadAttempt,
+    control: IActiveUpload,
+    onUploadProgress: (loaded: number) => void
+  ): Promise<IResumableResponse> => {
+    attempt.request = await buildRequest('PATCH', `${chatConfig.uploadEndpoints.resumable}/${uploadId}`, chunk, {
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': offset.toString()
+    })
+    attempt.response = undefined
+
+    const response = await sendWithProgress(attempt, control, onUploadProgress)
+    const { data } = await applyResponseInterceptors(chatConfig.interceptors, response)
+    return data as IResumableResponse
+  }
+
+  // Upload a file in chunks; pauses, waits for the connection and retries failed chunks
+  const uploadInChunks = async (
+    file: File,
+    category: string,
+    attempt: IUploadAttempt,
+    control: IActiveUpload,
+    progressData: UploadProgress,
+    onProgress?: (progress: number) => void
+  ): Promise<IUploadResponse> => {
+    const { chunkSize, maxChunkRetries, retryDelay } = chatConfig.upload
+    const fingerprint = `${file.name}:${file.size}:${file.lastModified}:${category}`
+    control.fingerprint = fingerprint
+
+    const { file: completed, ...session } = await openSession(file, category, fingerprint)
+    const uploadId = session.uploadId
+    control.uploadId = uploadId
+    // Cancelled while the session was opened, uploadFile discards it
+    throwIfCancelled(control)
+
+    let offset = session.offset
+    let result = completed
+    let failures = 0
+    resetSpeed(progressData, control, offset)
+    reportBytes(progressData, control, offset, onProgress)
+
+    // Re-read the offset after an interrupted chunk, the server may have stored part of it
+    const syncOffset = async () => {
+      const status = await fetchSessionStatus(uploadId)
+      throwIfCancelled(control)
+      offset = status.offset ?? offset
+      result = status.file
+      resetSpeed(progressData, control, offset)
+    }
+
+    while (!result) {
+      if (offset >= file.size) {
+        throw new ServerError('Upload finished without file info')
+      }
+      throwIfCancelled(control)
+      await waitWhilePaused(control, progressData)
+
+      const chunk = file.slice(offset, offset + chunkSize)
+      const chunkOffset = offset
+      try {
+        const data = await sendChunk(uploadId, chunk, chunkOffset, attempt, control, (loaded) => {
+          reportBytes(progressData, control, chunkOffset + Math.min(loaded, chunk.size), onProgress)
+        })
+
+        offset = data.offset ?? chunkOffset + chunk.size
+        result = data.file
+        failures = 0
+        throwIfCancelled(control)
+        storeSession({ ...session, offset })
+        reportBytes(progressData, control, offset, onProgress)
+      } catch (err) {
+        throwIfCancelled(control)
+
+        // Paused during the chunk: wait, then continue from what the server has.
+        // The abort may only reject after resumeUpload(), so it is not fatal either
+        if (control.paused || err instanceof CancelledError) {
+          await waitWhilePaused(control, progressData)
+          await syncOffset()
+          continue
+        }
+
+        const error = toChatError(err)
+        if (error.kind === ChatErrorKindEnum.NETWORK && !navigator.onLine) {
+          await waitForOnline(control, progressData)
+          await syncOffset()
+          continue
+        }
+
+        failures++
+        if (!error.isRetryable || failures > maxChunkRetries) throw err
+
+        console.warn(`🔁 Retrying chunk at ${chunkOffset} of ${file.name} (${failures}/${maxChunkRetries})`)
+        await wait(error.retryAfter ? error.retryAfter * 1000 : retryDelay * 2 ** (failures - 1))
+        throwIfCancelled(control)
+        await syncOffset()
+      }
     }
-    return endpoints[category] || '/api/upload/file'
+
+    forgetSession(fingerprint)
+    return result
   }
 
   // Upload a single file with progress tracking
   const uploadFile = async (
-    file: File,
-    options: {
-      onProgress?: (progress: number) => void
-      category?: 'image' | 'video' | 'audio' | 'document' | 'file'
-    } = {}
+    source: File,
+    options: IUploadOptions = {}
   ): Promise<UploadedFileInfo> => {
-    const fileId = `${Date.now()}-${Math.random().toString(36).substring(7)}`
-    const category = options.category || getFileCategory(file.type)
+    const fileId = options.fileId || generateUploadId()
+    const category = options.category || getFileCategory(source.type)
     const endpoint = getUploadEndpoint(category)
+    const processing = category === 'image' && (options.processImage ?? chatConfig.imageProcessing.enabled)
+
+    const attempt: IUploadAttempt = { request: { method: 'POST', url: endpoint, headers: {} } }
+    const control: IActiveUpload = {
+      xhr: null,
+      cancelled: false,
+      paused: false,
+      resume: null,
+      sampleAt: Date.now(),
+      sampleBytes: 0
+    }
+    activeUploads.set(fileId, control)
 
     // Initialize progress tracking
     uploadProgressMap.value.set(fileId, {
       fileId,
-      filename: file.name,
+      filename: source.name,
       progress: 0,
-      status: 'pending'
+      status: 'pending',
+      bytesSent: 0,
+      totalBytes: source.size,
+      speed: 0,
+      resumable: options.resumable ?? source.size >= chatConfig.upload.resumableThreshold
     })
 
     try {
       isUploading.value = true
 
-      // Update status to uploading
-      const progressData = uploadProgressMap.value.get(fileId)!
-      progressData.status = 'uploading'
-
-      // Create form data
-      const formData = new FormData()
-      formData.append('file', file)
-
-      // Get auth token
-      const token = localStorage.getItem('accessToken')
-      const headers: Record<string, string> = {}
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`
+      // Reactive copy, updates the progress UI
+      const progressData = uploadProgressMap.value.get(fileId)
+      if (!progressData) throw new CancelledError('Upload cancelled')
+
+      // Images are oriented, stripped of EXIF and scaled down first, the result is uploaded
+      let image: IProcessedImage | undefined
+      if (processing) {
+        progressData.status = 'processing'
+        image = await processImage(source, chatConfig.imageProcessing.enabled ? undefined : { enabled: true })
+        throwIfCancelled(control)
       }
 
-      // Upload with XMLHttpRequest to track progress
-      const uploadPromise = new Promise<UploadedFileInfo>((resolve, reject) => {
-        const xhr = new XMLHttpRequest()
-
-        // Track upload progress
-        xhr.upload.addEventListener('progress', (e) => {
-          if (e.lengthComputable) {
-            const progress = Math.round((e.loaded / e.total) * 100)
-            progressData.progress = progress
-
-            if (options.onProgress) {
-              options.onProgress(progress)
-            }
-          }
-        })
-
-        // Handle completion
-        xhr.addEventListener('load', () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            try {
-              const response = JSON.parse(xhr.responseText)
-
-              // Update progress
-              progressData.status = 'success'
-              progressData.progress = 100
-
-              // Create UploadedFileInfo
-              const uploadedFile: UploadedFileInfo = {
-                id: fileId,
-                url: response.url || response.fileUrl,
-                filename: response.filename || response.fileName,
-                originalName: file.name,
-                size: response.size || file.size,
-                mimeType: response.mimeType || file.type,
-                type: category
-              }
-
-              resolve(uploadedFile)
-            } catch (error) {
-              reject(new Error('Failed to parse response'))
-            }
-          } else {
-            reject(new Error(`Upload failed with status ${xhr.status}`))
-          }
-        })
+      const file = image?.file || source
+      const resumable = options.resumable ?? file.size >= chatConfig.upload.resumableThreshold
+      progressData.totalBytes = file.size
+      progressData.resumable = resumable
+      progressData.status = 'uploading'
 
-        // Handle errors
-        xhr.addEventListener('error', () => {
-          reject(new Error('Network error during upload'))
-        })
+      const response = resumable
+        ? await uploadInChunks(file, category, attempt, control, progressData, options.onProgress)
+        : await uploadWhole(file, endpoint, attempt, control, progressData, options.onProgress)
+      // Cancelled while the response went through the interceptors
+      throwIfCancelled(control)
+
+      // The data URL preview would end up in the message, the queue and the cache, upload the file instead
+      const thumbnailUrl = response.thumbnailUrl ||
+        (image?.thumbnail ? await uploadThumbnail(image.thumbnail, endpoint, control) : undefined)
+      throwIfCancelled(control)
+
+      // Update progress
+      progressData.status = 'success'
+      progressData.progress = 100
+      progressData.bytesSent = file.size
+      progressData.eta = 0
+
+      // Create UploadedFileInfo
+      const result: UploadedFileInfo = {
+        id: fileId,
+        url: response.url || response.fileUrl || '',
+        filename: response.filename || response.fileName || file.name,
+        originalName: source.name,
+        size: response.size || file.size,
+        mimeType: response.mimeType || file.type,
+        type: category,
+        width: response.width || image?.width,
+        height: response.height || image?.height,
+        thumbnailUrl
+      }
 
-        xhr.addEventListener('abort', () => {
-          reject(new Error('Upload cancelled'))
-        })
+      notify.success('upload.succeeded', `${source.name} uploaded successfully`, { payload: { fileName: source.name } })
+      return result
 
-        // Open connection and send
-        const baseUrl = import.meta.env.VITE_API_BASE_URL || ''
-        xhr.open('POST', `${baseUrl}${endpoint}`)
+    } catch (err) {
+      const progressData = uploadProgressMap.value.get(fileId)
 
-        // Set headers
-        Object.entries(headers).forEach(([key, value]) => {
-          xhr.setRequestHeader(key, value)
-        })
+      // Cancelled by the user, nothing to report
+      if (control.cancelled) {
+        discardSession(control)
+        if (progressData) progressData.status = 'cancelled'
+        console.log(`🚫 Upload of ${source.name} cancelled`)
+        throw new CancelledError('Upload cancelled')
+      }
 
-        xhr.send(formData)
+      const error = await applyErrorInterceptors(chatConfig.interceptors, toChatError(err), {
+        request: attempt.request,
+        response: attempt.response
       })
 
-      const result = await uploadPromise
-
-      ElMessage.success(`${file.name} uploaded successfully`)
-      return result
-
-    } catch (error: any) {
       // Update progress with error
-      const progressData = uploadProgressMap.value.get(fileId)
       if (progressData) {
         progressData.status = 'error'
         progressData.error = error.message
       }
 
       console.error('File upload error:', error)
-      ElMessage.error(`Failed to upload ${file.name}: ${error.message}`)
+      notify.error('upload.failed', `Failed to upload ${source.name}: ${error.message}`, {
+        payload: { fileName: source.name, error }
+      })
       throw error
     } finally {
-      isUploading.value = false
+      activeUploads.delete(fileId)
+      isUploading.value = activeUploads.size > 0 || uploadQueue.length > 0
 
       // Clean up progress after delay
       setTimeout(() => {
@@ -205,41 +830,74 @@ export function useFileUpload() {
     }
   }
 
-  // Upload multiple files
+  // Upload several files through the shared queue (upload.concurrency at a time)
+  // Results keep the order of files, whatever order the uploads finish in
   const uploadFiles = async (
     files: File[],
-    options: {
-      onProgress?: (fileId: string, progress: number) => void
-      onFileComplete?: (file: UploadedFileInfo) => void
-      category?: 'image' | 'video' | 'audio' | 'document' | 'file'
-    } = {}
-  ): Promise<UploadedFileInfo[]> => {
-    const results: UploadedFileInfo[] = []
-
-    for (const file of files) {
-      try {
-        const uploadedFile = await uploadFile(file, {
-          category: options.category,
-          onProgress: (progress) => {
-            if (options.onProgress) {
-              // We would need to track fileId mapping here
-              options.onProgress(file.name, progress)
-            }
+    options: IUploadFilesOptions = {}
+  ): Promise<IUploadResult[]> => {
+    const settled = files.map((file, index) => {
+      const fileId = options.fileIds?.[index] || generateUploadId()
+      const priority = typeof options.priority === 'function'
+        ? options.priority(file, index)
+        : options.priority || 0
+
+      return enqueueUpload(file, fileId, priority, {
+        category: options.category,
+        onProgress: (progress) => options.onProgress?.(fileId, progress)
+      }).then(
+        (info): IUploadResult => {
+          options.onFileComplete?.(info)
+          return { fileId, file, status: 'success', info }
+        },
+        (err): IUploadResult => {
+          const error = toChatError(err)
+          console.error(`Failed to upload ${file.name}:`, error)
+          return {
+            fileId,
+            file,
+            status: isChatError(error, ChatErrorKindEnum.CANCELLED) ? 'cancelled' : 'error',
+            error
           }
-        })
+        }
+      )
+    })
 
-        results.push(uploadedFile)
+    return Promise.all(settled)
+  }
 
-        if (options.onFileComplete) {
-          options.onFileComplete(uploadedFile)
-        }
-      } catch (error) {
-        console.error(`Failed to upload ${file.name}:`, error)
-        // Continue with other files
-      }
-    }
+  // Queue an upload, it starts once a slot is free (higher priority first, then FIFO)
+  const enqueueUpload = (
+    file: File,
+    fileId: string,
+    priority: number,
+    options: IUploadOptions
+  ): Promise<UploadedFileInfo> => {
+    // Queued files count in the aggregate progress right away
+    uploadProgressMap.value.set(fileId, {
+      fileId,
+      filename: file.name,
+      progress: 0,
+      status: 'pending',
+      bytesSent: 0,
+      totalBytes: file.size,
+      speed: 0,
+      resumable: options.resumable ?? file.size >= chatConfig.upload.resumableThreshold
+    })
 
-    return results
+    isUploading.value = true
+    return new Promise<UploadedFileInfo>((resolve, reject) => {
+      uploadQueue.push({
+        fileId,
+        filename: file.name,
+        priority,
+        sequence: queueSequence++,
+        start: () => uploadFile(file, { ...options, fileId }),
+        resolve,
+        reject
+      })
+      pumpQueue(chatConfig.upload.concurrency)
+    })
   }
 
   // Get upload progress for a specific file
@@ -252,14 +910,48 @@ export function useFileUpload() {
     return Array.from(uploadProgressMap.value.values())
   }
 
-  // Cancel upload (if implemented)
-  const cancelUpload = (fileId: string) => {
-    const progressData = uploadProgressMap.value.get(fileId)
-    if (progressData) {
-      progressData.status = 'error'
-      progressData.error = 'Cancelled by user'
+  // Abort an upload; the server session of a chunked upload is discarded
+  const cancelUpload = (fileId: string): boolean => {
+    // Still queued: never started, nothing to abort
+    const queueIndex = uploadQueue.findIndex(entry => entry.fileId === fileId)
+    const queued = uploadQueue[queueIndex]
+    if (queued) {
+      uploadQueue.splice(queueIndex, 1)
       uploadProgressMap.value.delete(fileId)
+      console.log(`🚫 Upload of ${queued.filename} cancelled before it started`)
+      queued.reject(new CancelledError('Upload cancelled'))
+      isUploading.value = activeUploads.size > 0 || uploadQueue.length > 0
+      return true
     }
+
+    const control = activeUploads.get(fileId)
+    if (!control) return false
+
+    // The upload stops at its next step, which also discards the session: only then is
+    // the uploadId known if the session is still being opened
+    control.cancelled = true
+    control.xhr?.abort()
+    control.resume?.()
+    return true
+  }
+
+  // Pause a chunked upload, the chunk in flight is aborted and sent again on resume
+  const pauseUpload = (fileId: string): boolean => {
+    const control = activeUploads.get(fileId)
+    if (!control || control.paused || !uploadProgressMap.value.get(fileId)?.resumable) return false
+
+    control.paused = true
+    control.xhr?.abort()
+    return true
+  }
+
+  const resumeUpload = (fileId: string): boolean => {
+    const control = activeUploads.get(fileId)
+    if (!control?.paused) return false
+
+    control.paused = false
+    control.resume?.()
+    return true
   }
 
   // Validate file before upload
@@ -306,6 +998,7 @@ export function useFileUpload() {
   return {
     // State
     uploadProgressMap,
+    uploadSummary,
     isUploading,
 
     // Methods
@@ -315,6 +1008,9 @@ export function useFileUpload() {
     getUploadProgress,
     getAllUploadProgress,
     cancelUpload,
+    pauseUpload,
+    resumeUpload,
+    getResumableSessions,
     validateFile,
     getFileCategory
   }
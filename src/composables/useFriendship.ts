@@ -1,6 +1,6 @@
 import { ref, computed } from 'vue'
-import { ElMessage } from 'element-plus'
 import { useApi, type FriendshipListResponse } from './useApi'
+import { useNotifier } from './useNotifier'
 import type {
   IFriendship,
   IFriendUser,
@@ -23,6 +23,7 @@ const latestNotification = ref<IFriendshipNotification | null>(null)
 
 export function useFriendship() {
   const api = useApi()
+  const notify = useNotifier()
 
   // Handler for friend request received event
   const onFriendRequestReceived = (data: IFriendshipNotification) => {
@@ -44,12 +45,11 @@ export function useFriendship() {
     pendingRequests.value.unshift(newRequest)
 
     // Show notification
-    ElMessage({
-      message: `${data.requester.name} sent you a friend request${data.message ? ': ' + data.message : ''}`,
-      type: 'info',
-      duration: 5000,
-      showClose: true
-    })
+    notify.info(
+      'friendship.requestReceived',
+      `${data.requester.name} sent you a friend request${data.message ? ': ' + data.message : ''}`,
+      { payload: { name: data.requester.name, message: data.message }, duration: 5000, closable: true }
+    )
 
     // Optionally refresh full list
     getFriendshipList()
@@ -80,11 +80,10 @@ export function useFriendship() {
     friendsList.value.unshift(newFriend)
 
     // Show success notification
-    ElMessage({
-      message: `${data.addressee.name} accepted your friend request!`,
-      type: 'success',
+    notify.success('friendship.requestAccepted', `${data.addressee.name} accepted your friend request!`, {
+      payload: { name: data.addressee.name },
       duration: 5000,
-      showClose: true
+      closable: true
     })
 
     // Refresh full list
@@ -103,11 +102,10 @@ export function useFriendship() {
     )
 
     // Show notification
-    ElMessage({
-      message: `${data.addressee.name} declined your friend request`,
-      type: 'warning',
+    notify.warning('friendship.requestDeclined', `${data.addressee.name} declined your friend request`, {
+      payload: { name: data.addressee.name },
       duration: 5000,
-      showClose: true
+      closable: true
     })
   }
 
@@ -290,7 +288,7 @@ export function useFriendship() {
         localStorage.removeItem('auth_user')
         // Don't show error message, user will be prompted to login again
       } else {
-        ElMessage.error(error.message || 'Failed to load friends')
+        notify.error('friendship.loadFailed', error.message || 'Failed to load friends', { payload: { error } })
       }
 
       return null
@@ -308,13 +306,13 @@ export function useFriendship() {
         message
       })
 
-      ElMessage.success('Friend request sent successfully')
+      notify.success('friendship.requestSent', 'Friend request sent successfully', { payload: { addresseeId } })
       await getFriendshipList() // Refresh list
 
       return data
     } catch (error: any) {
       console.error('Send friend request error:', error)
-      ElMessage.error(error.message || 'Failed to send friend request')
+      notify.error('friendship.requestFailed', error.message || 'Failed to send friend request', { payload: { addresseeId, error } })
       throw error
     } finally {
       isLoading.value = false
@@ -343,15 +341,17 @@ export function useFriendship() {
 
       const data = await api.post('/api/friendship/respond-request', payload)
 
-      ElMessage.success(
-        status === 'accepted' ? 'Friend request accepted' : 'Friend request declined'
-      )
+      if (status === 'accepted') {
+        notify.success('friendship.accepted', 'Friend request accepted', { payload: { friendshipId } })
+      } else {
+        notify.success('friendship.declined', 'Friend request declined', { payload: { friendshipId } })
+      }
       await getFriendshipList() // Refresh list
 
       return data
     } catch (error: any) {
       console.error('Respond to request error:', error)
-      ElMessage.error(error.message || 'Failed to respond to request')
+      notify.error('friendship.respondFailed', error.message || 'Failed to respond to request', { payload: { friendshipId, error } })
       throw error
     } finally {
       isLoading.value = false
@@ -367,13 +367,13 @@ export function useFriendship() {
         reason
       })
 
-      ElMessage.success('User blocked successfully')
+      notify.success('friendship.userBlocked', 'User blocked successfully', { payload: { userId } })
       await getFriendshipList() // Refresh list
 
       return data
     } catch (error: any) {
       console.error('Block user error:', error)
-      ElMessage.error(error.message || 'Failed to block user')
+      notify.error('friendship.blockFailed', error.message || 'Failed to block user', { payload: { userId, error } })
       throw error
     } finally {
       isLoading.value = false
@@ -386,13 +386,13 @@ export function useFriendship() {
     try {
       const data = await api.del(`/api/friendship/unblock/${userId}`)
 
-      ElMessage.success('User unblocked successfully')
+      notify.success('friendship.userUnblocked', 'User unblocked successfully', { payload: { userId } })
       await getFriendshipList() // Refresh list
 
       return data
     } catch (error: any) {
       console.error('Unblock user error:', error)
-      ElMessage.error(error.message || 'Failed to unblock user')
+      notify.error('friendship.unblockFailed', error.message || 'Failed to unblock user', { payload: { userId, error } })
       throw error
     } finally {
       isLoading.value = false
@@ -405,13 +405,13 @@ export function useFriendship() {
     try {
       const data = await api.del(`/api/friendship/remove/${friendId}`)
 
-      ElMessage.success('Friend removed successfully')
+      notify.success('friendship.friendRemoved', 'Friend removed successfully', { payload: { friendId } })
       await getFriendshipList() // Refresh list
 
       return data
     } catch (error: any) {
       console.error('Remove friend error:', error)
-      ElMessage.error(error.message || 'Failed to remove friend')
+      notify.error('friendship.removeFailed', error.message || 'Failed to remove friend', { payload: { friendId, error } })
       throw error
     } finally {
       isLoading.value = false
@@ -438,7 +438,7 @@ export function useFriendship() {
       return data
     } catch (error: any) {
       console.error('Get suggested friends error:', error)
-      ElMessage.error(error.message || 'Failed to load suggested friends')
+      notify.error('friendship.suggestionsFailed', error.message || 'Failed to load suggested friends', { payload: { error } })
       throw error
     } finally {
       isLoading.value = false
@@ -0,0 +1,213 @@
+import { useChatConfig } from './useChatConfig'
+import { useNotifier } from './useNotifier'
+import {
+  canProcessImages,
+  processImageBlob,
+  processImageOnCanvas,
+  METADATA_IMAGE_TYPES
+} from '../utils/imageProcessing'
+import ImageWorker from '../workers/imageProcessor.worker?worker&inline'
+import type {
+  IImageProcessingOptions,
+  IImageProcessingResult,
+  IImageWorkerResponse,
+  IProcessedImage
+} from '../interfaces/image.interface'
+
+interface IPendingImage {
+  resolve: (result: IImageProcessingResult) => void
+  reject: (error: Error) => void
+}
+
+// One worker for the whole app, created on first use
+let worker: Worker | null = null
+let workerFailed = false
+let requestSequence = 0
+const pendingImages = new Map<number, IPendingImage>()
+
+// The same File is processed once (preview and upload share the result)
+const processedImages = new WeakMap<File, Promise<IProcessedImage>>()
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png'
+}
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker
+  if (typeof Worker === 'undefined') {
+    workerFailed = true
+    return null
+  }
+
+  try {
+    worker = new ImageWorker()
+    worker.onmessage = (event: MessageEvent<IImageWorkerResponse>) => {
+      const { id, result, error } = event.data
+      const pending = pendingImages.get(id)
+      if (!pending) return
+
+      pendingImages.delete(id)
+      if (result) {
+        pending.resolve(result)
+      } else {
+        pending.reject(new Error(error || 'Image processing failed'))
+      }
+    }
+    worker.onerror = (event) => {
+      // The worker can't run here (CSP, missing OffscreenCanvas...), use the main thread from now on
+      console.warn('⚠️ Image worker failed, processing on the main thread:', event.message)
+      terminateWorker(new Error('Image worker failed'))
+      workerFailed = true
+    }
+  } catch (err) {
+    console.warn('⚠️ Image worker unavailable, processing on the main thread:', err)
+    workerFailed = true
+    worker = null
+  }
+  return worker
+}
+
+function terminateWorker(reason: Error) {
+  worker?.terminate()
+  worker = null
+  pendingImages.forEach(pending => pending.reject(reason))
+  pendingImages.clear()
+}
+
+function runInWorker(file: File, options: IImageProcessingOptions): Promise<IImageProcessingResult> {
+  const target = getWorker()
+  if (!target) return processImageBlob(file, options)
+
+  const id = ++requestSequence
+  return new Promise<IImageProcessingResult>((resolve, reject) => {
+    pendingImages.set(id, { resolve, reject })
+    target.postMessage({ id, file, options })
+  }).catch(err => {
+    // Worker died mid-way, try once more on the main thread
+    if (workerFailed) return processImageBlob(file, options)
+    throw err
+  })
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+function renameForType(name: string, type: string): string {
+  const extension = EXTENSIONS[type]
+  if (!extension) return name
+  const dot = name.lastIndexOf('.')
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extension}`
+}
+
+/**
+ * Prepare images for upload
+ *
+ * Applies the EXIF orientation, strips metadata, scales down to
+ * imageProcessing.maxDimension, re-encodes (WebP or JPEG) and creates a
+ * thumbnail, in a worker so typing and scrolling stay smooth. Without worker
+ * support the same pipeline runs on the main thread; without OffscreenCanvas
+ * (or when it fails) a DOM canvas is used. Originals that still carry their
+ * metadata are only uploaded with a warning.
+ */
+export function useImageProcessor() {
+  const chatConfig = useChatConfig()
+  const notify = useNotifier()
+
+  const shouldProcess = (file: File, options: IImageProcessingOptions): boolean => {
+    return options.enabled &&
+      file.type.startsWith('image/') &&
+      !options.skipTypes.includes(file.type)
+  }
+
+  // Worker or OffscreenCanvas first, a DOM canvas when they are missing or fail
+  const runPipeline = async (file: File, options: IImageProcessingOptions): Promise<IImageProcessingResult> => {
+    if (canProcessImages() || getWorker()) {
+      try {
+        return await runInWorker(file, options)
+      } catch (err) {
+        if (typeof document === 'undefined') throw err
+        console.warn(`⚠️ Could not process ${file.name} off the DOM, using a canvas:`, err)
+      }
+    }
+    return processImageOnCanvas(file, options)
+  }
+
+  const process = async (file: File, options: IImageProcessingOptions): Promise<IProcessedImage> => {
+    if (!shouldProcess(file, options)) {
+      return { file, processed: false }
+    }
+
+    try {
+      const result = await runPipeline(file, options)
+      const thumbnailUrl = result.thumbnail ? await readAsDataUrl(result.thumbnail) : undefined
+      const processedFile = result.blob
+        ? new File([result.blob], renameForType(file.name, result.blob.type), {
+            type: result.blob.type,
+            lastModified: file.lastModified
+          })
+        : file
+
+      if (result.blob) {
+        console.log(`🖼️ ${file.name}: ${file.size} → ${processedFile.size} bytes (${result.width}x${result.height})`)
+      }
+
+      return {
+        file: processedFile,
+        processed: !!result.blob,
+        width: result.width,
+        height: result.height,
+        thumbnailUrl,
+        thumbnail: result.thumbnail
+          ? new File([result.thumbnail], renameForType(`thumb_${file.name}`, result.thumbnail.type), {
+              type: result.thumbnail.type,
+              lastModified: file.lastModified
+            })
+          : undefined,
+        thumbnailWidth: result.thumbnailWidth,
+        thumbnailHeight: result.thumbnailHeight
+      }
+    } catch (err) {
+      // Undecodable or unsupported image, the server gets the original
+      console.warn(`⚠️ Could not process ${file.name}, uploading the original:`, err)
+      if (METADATA_IMAGE_TYPES.includes(file.type)) {
+        notify.warning(
+          'upload.metadataKept',
+          `${file.name} could not be processed, it is uploaded with its metadata (e.g. location)`,
+          { payload: { fileName: file.name, error: err } }
+        )
+      }
+      return { file, processed: false }
+    }
+  }
+
+  /**
+   * Process an image with the configured options
+   *
+   * @param file - Image picked by the user
+   * @param overrides - Options for this image only (results of overridden calls are not cached)
+   * @returns Image to upload and its thumbnail; the original when processing is disabled or fails
+   */
+  const processImage = (file: File, overrides?: Partial<IImageProcessingOptions>): Promise<IProcessedImage> => {
+    const options = { ...chatConfig.imageProcessing, ...overrides }
+    if (overrides) return process(file, options)
+
+    const cached = processedImages.get(file)
+    if (cached) return cached
+
+    const promise = process(file, options)
+    processedImages.set(file, promise)
+    return promise
+  }
+
+  return {
+    processImage
+  }
+}
@@ -0,0 +1,93 @@
+import { shallowRef, computed } from 'vue'
+import type { Component } from 'vue'
+import { useChatConfig } from './useChatConfig'
+import type { IMessage } from '../interfaces/message.interface'
+import type { IMessageTypeRenderer } from '../interfaces/registry.interface'
+import { mentionsToPlainText } from '../utils/mentions'
+
+// Types ChatList renders itself
+const BUILT_IN_TYPES = ['text', 'image', 'audio', 'video', 'file', 'system']
+const PREVIEW_MAX_LENGTH = 50
+
+// Renderers registered for every app, highest priority first
+const renderers = shallowRef<IMessageTypeRenderer[]>([])
+
+/**
+ * Register the renderer of a custom message type
+ *
+ * A renderer registered for a type that already has one replaces it.
+ *
+ * @param renderer - Component, matcher and preview of the type
+ * @returns Function removing the renderer again
+ */
+export function registerMessageRenderer(renderer: IMessageTypeRenderer): () => void {
+  renderers.value = [...renderers.value.filter(r => r.type !== renderer.type), renderer]
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0))
+
+  return () => unregisterMessageRenderer(renderer.type)
+}
+
+export function unregisterMessageRenderer(type: string) {
+  renderers.value = renderers.value.filter(r => r.type !== type)
+}
+
+/**
+ * Renderer registry for custom message types
+ *
+ * ChatList renders matching messages with the registered component and
+ * ConversationItems uses the registered preview for the last message.
+ * The `messageRenderers` install option only applies to its own app, a
+ * registered renderer replaces one of the same type.
+ */
+export function useMessageRenderers() {
+  const { messageRenderers } = useChatConfig()
+
+  const appRenderers = computed(() => {
+    const registeredTypes = new Set(renderers.value.map(r => r.type))
+    return [...messageRenderers.filter(r => !registeredTypes.has(r.type)), ...renderers.value]
+      .sort((a, b) => (b.priority || 0) - (a.priority || 0))
+  })
+
+  // Metadata discriminators are checked before plain type matches
+  const resolveMessageRenderer = (message: IMessage): IMessageTypeRenderer | undefined => {
+    return appRenderers.value.find(r => r.match?.(message)) ||
+      appRenderers.value.find(r => !r.match && r.type === message.type)
+  }
+
+  const getMessageComponent = (message: IMessage): Component | undefined => {
+    return resolveMessageRenderer(message)?.component
+  }
+
+  // Unknown type without a renderer, ChatList falls back to the text content
+  const isUnsupportedMessage = (message: IMessage): boolean => {
+    return !!message.type && !BUILT_IN_TYPES.includes(message.type) && !resolveMessageRenderer(message)
+  }
+
+  // One-line summary of a message for conversation lists
+  const getMessagePreview = (message: IMessage): string => {
+    const renderer = resolveMessageRenderer(message)
+    if (renderer?.preview) return renderer.preview(message)
+
+    if (message.type === 'image') return '📷 Image'
+    if (message.type === 'file') return `📎 ${message.fileName || 'File'}`
+    if (message.type === 'audio') return '🎤 Voice message'
+    if (message.type === 'video') return '🎥 Video'
+
+    const content = mentionsToPlainText(message.content || message.contentText || '')
+    if (!content && isUnsupportedMessage(message)) return 'Unsupported message'
+    return content.length > PREVIEW_MAX_LENGTH ? content.substring(0, PREVIEW_MAX_LENGTH) + '...' : content
+  }
+
+  return {
+    // State
+    renderers: appRenderers,
+
+    // Methods
+    registerMessageRenderer,
+    unregisterMessageRenderer,
+    resolveMessageRenderer,
+    getMessageComponent,
+    isUnsupportedMessage,
+    getMessagePreview
+  }
+}
@@ -1,11 +1,21 @@
 import { ref } from 'vue'
-import { ElMessage } from 'element-plus'
 import { useApi } from './useApi'
+import { useNotifier } from './useNotifier'
+import { useChatConfig } from './useChatConfig'
+import { usePersistence } from './usePersistence'
+import { usePinMessage } from './usePinMessage'
 import { parseReplyToId, resolveReplyToReferences } from '../utils/messageParser'
+import { generateClientId, isClientId } from '../utils/clientId'
+import { getJwtUserId } from '../utils/jwt'
+import { parseEditHistory, parseReactions } from '../utils/socketMessageParser'
+import { toChatError } from '../utils/errors'
+import { MessageStatusEnum, MessageDeleteModeEnum } from '../enums/message.enum'
+import type { IMessageRevision, IMessageReaction, IReactionUser, IAttachment } from '../interfaces/message.interface'
 
 // Types
 export interface IChatMessage {
   id: string
+  clientId?: string // Client-generated ID of an optimistic message
   conversationId: string
   sender: {
     id: string
@@ -21,15 +31,21 @@ export interface IChatMessage {
   type: 'text' | 'image' | 'file' | 'audio' | 'video' | 'system'
   fileUrl?: string
   fileName?: string
+  attachments?: IAttachment[] // Uploaded files with their metadata (dimensions, duration, waveform)
   readBy: string[]
+  listenedBy?: string[] // Voice messages: users who played it (independent of readBy)
   replyTo?: string | any // Backend returns string (MongoDB toString) or object ID
   replyToMessage?: IChatMessage // Populated reply message (resolved locally)
   isEdited: boolean
   isDeleted: boolean
   editedAt?: Date
+  editHistory?: IMessageRevision[] // Prior contents, oldest first
   deletedAt?: Date
+  reactions?: IMessageReaction[] // Aggregated per emoji
+  mentions?: string[] // IDs of the mentioned users
   createdAt: Date
   updatedAt: Date
+  status?: MessageStatusEnum // Local delivery status of own messages (PENDING/SENT/FAILED)
 }
 
 export interface IMessageHistory {
@@ -50,17 +66,101 @@ export interface ISendMessagePayload {
   type?: 'text' | 'image' | 'file' | 'audio' | 'video' | 'system'
   fileUrl?: string
   fileName?: string
+  attachments?: IAttachment[]
   replyTo?: string
+  mentions?: string[] // IDs of the users mentioned with @[name](userId) tokens in content
+}
+
+export interface IMessageEdit {
+  content: string
+  editedAt?: Date
+  editHistory?: IMessageRevision[] // Authoritative history from the server, replaces the local one
+}
+
+export interface IPendingDeletion {
+  mode: MessageDeleteModeEnum
+  previous: IChatMessage // Message before the tombstone, restored on undo
+  timer: ReturnType<typeof setTimeout>
+  resolve: (deleted: boolean) => void // Settles the promise returned by deleteMessage
+}
+
+export interface ISyncCursor {
+  messageId: string
+  createdAt: string // ISO timestamp of the newest confirmed message
 }
 
 // State
 const messages = ref<Map<string, IChatMessage[]>>(new Map())
 const isLoadingMessages = ref(false)
 const totalMessagesMap = ref<Map<string, number>>(new Map())
-const currentPageMap = ref<Map<string, number>>(new Map())
+// Oldest message of the history loaded page by page from the newest one; windows loaded
+// around a jump target (older, with a gap) are not part of it
+const historyCursorMap = ref<Map<string, ISyncCursor>>(new Map())
+// Newest confirmed message seen per conversation, used to backfill after a reconnect
+const syncCursorMap = ref<Map<string, ISyncCursor>>(new Map())
+// Conversations whose cursor is frozen until their backfill completes, with the newest
+// cursor seen meanwhile (live messages must not move the cursor past the missed ones)
+const heldSyncCursors = new Map<string, ISyncCursor | null>()
+const isSyncing = ref(false)
+const isLoadingOlder = ref(false)
+// Deletions that can still be undone, by message ID
+const pendingDeletions = ref<Map<string, IPendingDeletion>>(new Map())
+
+const SYNC_PAGE_SIZE = 100
+const DELETE_UNDO_DELAY = 5000
+let deletionFlushRegistered = false
+const MESSAGE_WINDOW_SIZE = 50 // Messages loaded around a jump target (before and after)
+
+// Shape of a conversation in the offline cache
+interface ICachedConversationMessages {
+  messages: IChatMessage[]
+  totalMessages?: number
+  historyCursor?: ISyncCursor
+}
 
 export function useMessages() {
   const api = useApi()
+  const notify = useNotifier()
+  const chatConfig = useChatConfig()
+  const persistence = usePersistence()
+  const { pinnedMessages, removePinnedMessage } = usePinMessage()
+
+  // Write a conversation through to the offline cache (confirmed messages only, most recent kept)
+  // Resolved replies are dropped, they are resolved again on hydration
+  const persistMessages = (conversationId: string) => {
+    persistence.write('messages', conversationId, (): ICachedConversationMessages => ({
+      messages: getMessages(conversationId)
+        .filter(m => !isClientId(m.id))
+        .slice(-persistence.getMessageLimit())
+        .map(m => ({ ...m, replyToMessage: undefined })),
+      totalMessages: totalMessagesMap.value.get(conversationId),
+      historyCursor: historyCursorMap.value.get(conversationId)
+    }))
+  }
+
+  // Load cached conversations into memory (conversations already loaded from the API win)
+  const hydrateMessages = async () => {
+    const cached = await persistence.readAll<ICachedConversationMessages>('messages')
+    cached.forEach((entry, conversationId) => {
+      if (messages.value.has(conversationId)) return
+
+      messages.value.set(
+        conversationId,
+        resolveReplyToReferences(entry.messages, { verbose: false, warnOnMissing: false })
+      )
+      if (entry.totalMessages !== undefined) {
+        totalMessagesMap.value.set(conversationId, entry.totalMessages)
+      }
+      // The oldest cached messages may be newer than the cursor when the cache limit cut them off
+      const oldestCached = getOldestCursor(entry.messages)
+      const historyCursor = entry.historyCursor && oldestCached && isOlder(oldestCached, entry.historyCursor)
+        ? entry.historyCursor
+        : oldestCached
+      if (historyCursor) historyCursorMap.value.set(conversationId, historyCursor)
+      entry.messages.forEach(m => updateSyncCursor(conversationId, m))
+    })
+    console.log(`💾 Hydrated messages for ${cached.size} conversations from cache`)
+  }
 
   // Get chat history
   const getChatHistory = async (
@@ -75,7 +175,7 @@ export function useMessages() {
       )
 
       // Process messages and resolve replyTo references
-      const processedMessages = resolveReplyToReferences(data.messages)
+      const processedMessages = resolveReplyToReferences(data.messages.map(normalizeReactions))
 
       // Store messages
       if (!messages.value.has(conversationId)) {
@@ -84,29 +184,198 @@ export function useMessages() {
 
       // If it's page 1, replace all messages, otherwise append
       if (page === 1) {
-        messages.value.set(conversationId, processedMessages)
+        // Keep optimistic messages the server doesn't know about yet
+        const unconfirmed = (messages.value.get(conversationId) || []).filter(m =>
+          isClientId(m.id) && !processedMessages.some(p => p.clientId && p.clientId === m.clientId)
+        )
+        messages.value.set(conversationId, [...processedMessages, ...unconfirmed])
+        historyCursorMap.value.delete(conversationId)
       } else {
-        const existing = messages.value.get(conversationId) || []
-        messages.value.set(conversationId, [...existing, ...processedMessages])
+        mergeOlderMessages(conversationId, processedMessages)
       }
 
+      moveHistoryCursor(conversationId, processedMessages)
       totalMessagesMap.value.set(conversationId, data.totalMessages)
-      currentPageMap.value.set(conversationId, page)
+      processedMessages.forEach(m => updateSyncCursor(conversationId, m))
+      persistMessages(conversationId)
 
       return data
     } catch (error: any) {
       console.error('Get chat history error:', error)
-      ElMessage.error(error.message || 'Failed to load messages')
+      notify.error('messages.loadFailed', error.message || 'Failed to load messages', { payload: { conversationId, error } })
       return null
     } finally {
       isLoadingMessages.value = false
     }
   }
 
+  // Older page: merge without duplicates, replies of newer pages may quote messages of this one
+  const mergeOlderMessages = (conversationId: string, olderMessages: IChatMessage[]) => {
+    const existing = messages.value.get(conversationId) || []
+    const existingIds = new Set(existing.map(m => m.id))
+    const merged = [...olderMessages.filter(m => !existingIds.has(m.id)), ...existing]
+    sortMessages(merged)
+    messages.value.set(
+      conversationId,
+      resolveReplyToReferences(merged, { verbose: false, warnOnMissing: false })
+    )
+  }
+
+  const isOlder = (a: ISyncCursor, b: ISyncCursor): boolean => {
+    return new Date(a.createdAt).getTime() < new Date(b.createdAt).getTime()
+  }
+
+  // Cursor of the oldest confirmed message of a list
+  const getOldestCursor = (list: IChatMessage[]): ISyncCursor | null => {
+    return list.reduce<ISyncCursor | null>((oldest, message) => {
+      if (isClientId(message.id) || !message.createdAt) return oldest
+      const cursor = { messageId: message.id, createdAt: new Date(message.createdAt).toISOString() }
+      return !oldest || isOlder(cursor, oldest) ? cursor : oldest
+    }, null)
+  }
+
+  // Move the history cursor back to the oldest message of a page
+  const moveHistoryCursor = (conversationId: string, page: IChatMessage[]) => {
+    const oldest = getOldestCursor(page)
+    const current = historyCursorMap.value.get(conversationId)
+    if (oldest && (!current || isOlder(oldest, current))) {
+      historyCursorMap.value.set(conversationId, oldest)
+    }
+  }
+
+  // Confirmed messages from the history cursor to the newest one
+  const countLoadedHistory = (conversationId: string): number => {
+    const cursor = historyCursorMap.value.get(conversationId)
+    return getMessages(conversationId).filter(m =>
+      !isClientId(m.id) &&
+      (!cursor || new Date(m.createdAt).getTime() >= new Date(cursor.createdAt).getTime())
+    ).length
+  }
+
+  // Whether older history is left to load (false until the first page is loaded)
+  const hasMoreMessages = (conversationId: string): boolean => {
+    const total = totalMessagesMap.value.get(conversationId)
+    if (total === undefined) return false
+
+    return countLoadedHistory(conversationId) < total
+  }
+
+  // Load the page of messages before the history cursor
+  const loadOlderMessages = async (conversationId: string, limit = 50): Promise<number> => {
+    const cursor = historyCursorMap.value.get(conversationId)
+    if (isLoadingOlder.value || !cursor || !hasMoreMessages(conversationId)) return 0
+
+    isLoadingOlder.value = true
+    try {
+      const params = new URLSearchParams({ before: cursor.messageId, limit: limit.toString() })
+      const data: IMessageHistory = await api.get(
+        `/api/chat/conversations/${conversationId}/messages?${params.toString()}`
+      )
+
+      const olderMessages = data.messages.map(normalizeReactions)
+      const before = getMessages(conversationId).length
+      mergeOlderMessages(conversationId, olderMessages)
+      moveHistoryCursor(conversationId, olderMessages)
+      const added = getMessages(conversationId).length - before
+
+      // An empty page means the total was stale, stop paging
+      totalMessagesMap.value.set(
+        conversationId,
+        olderMessages.length === 0 ? countLoadedHistory(conversationId) : data.totalMessages
+      )
+      persistMessages(conversationId)
+
+      console.log(`📜 Loaded ${added} older messages for ${conversationId} (before ${cursor.messageId})`)
+      return added
+    } catch (error) {
+      console.error('Load older messages error:', error)
+      notify.error('messages.loadFailed', 'Failed to load messages', { payload: { conversationId, error } })
+      return 0
+    } finally {
+      isLoadingOlder.value = false
+    }
+  }
+
   // Send message via REST API
+  // When a sender is given, the message is rendered optimistically until the server responds
   const sendMessage = async (
     conversationId: string,
-    payload: ISendMessagePayload
+    payload: ISendMessagePayload,
+    sender?: IChatMessage['sender']
+  ): Promise<IChatMessage | null> => {
+    const optimistic = sender ? addOptimisticMessage(conversationId, payload, sender) : null
+    return postMessage(conversationId, payload, optimistic?.clientId)
+  }
+
+  // Re-send a failed optimistic message via REST API
+  const resendMessage = async (
+    conversationId: string,
+    clientId: string
+  ): Promise<IChatMessage | null> => {
+    const optimistic = findByClientId(conversationId, clientId)
+    if (!optimistic || optimistic.status !== MessageStatusEnum.FAILED) return null
+
+    setMessageStatus(conversationId, clientId, MessageStatusEnum.PENDING)
+    return postMessage(
+      conversationId,
+      {
+        content: optimistic.content,
+        type: optimistic.type,
+        fileUrl: optimistic.fileUrl,
+        fileName: optimistic.fileName,
+        attachments: optimistic.attachments,
+        replyTo: typeof optimistic.replyTo === 'string' ? optimistic.replyTo : undefined,
+        mentions: optimistic.mentions
+      },
+      clientId
+    )
+  }
+
+  // Load the messages around one that isn't in the loaded pages and splice them into the timeline
+  // The sync and history cursors are left alone, the window may be separated from both by a gap
+  const loadMessageWindow = async (
+    conversationId: string,
+    messageId: string,
+    limit = MESSAGE_WINDOW_SIZE
+  ): Promise<IChatMessage | null> => {
+    const loaded = getMessages(conversationId).find(m => m.id === messageId)
+    if (loaded) return loaded
+
+    isLoadingMessages.value = true
+    try {
+      const params = new URLSearchParams({ around: messageId, limit: limit.toString() })
+      const data: IMessageHistory = await api.get(
+        `/api/chat/conversations/${conversationId}/messages?${params.toString()}`
+      )
+
+      const conversationMessages = [...getMessages(conversationId)]
+      const existingIds = new Set(conversationMessages.map(m => m.id))
+      data.messages
+        .map(normalizeReactions)
+        .filter(m => !existingIds.has(m.id))
+        .forEach(m => conversationMessages.push(m))
+
+      sortMessages(conversationMessages)
+      messages.value.set(
+        conversationId,
+        resolveReplyToReferences(conversationMessages, { verbose: false, warnOnMissing: false })
+      )
+      persistMessages(conversationId)
+
+      console.log(`🧭 Loaded ${data.messages.length} messages around ${messageId}`)
+      return getMessages(conversationId).find(m => m.id === messageId) || null
+    } catch (error) {
+      console.error('Load message window error:', error)
+      return null
+    } finally {
+      isLoadingMessages.value = false
+    }
+  }
+
+  const postMessage = async (
+    conversationId: string,
+    payload: ISendMessagePayload,
+    clientId?: string
   ): Promise<IChatMessage | null> => {
     try {
       const data = await api.post(
@@ -116,61 +385,204 @@ export function useMessages() {
           type: payload.type || 'text',
           ...(payload.fileUrl && { fileUrl: payload.fileUrl }),
           ...(payload.fileName && { fileName: payload.fileName }),
-          ...(payload.replyTo && { replyTo: payload.replyTo })
+          ...(payload.attachments?.length && { attachments: payload.attachments }),
+          ...(payload.replyTo && { replyTo: payload.replyTo }),
+          ...(payload.mentions?.length && { mentions: payload.mentions }),
+          ...(clientId && { clientId })
         }
       )
 
       const newMessage = data.message as IChatMessage
 
-      // Add to local messages
-      addMessage(conversationId, newMessage)
+      // Add to local messages (replaces the optimistic copy if any)
+      if (clientId) {
+        reconcileMessage(conversationId, clientId, newMessage)
+      } else {
+        addMessage(conversationId, newMessage)
+      }
 
       return newMessage
     } catch (error: any) {
       console.error('Send message error:', error)
-      ElMessage.error(error.message || 'Failed to send message')
+      if (clientId) {
+        setMessageStatus(conversationId, clientId, MessageStatusEnum.FAILED)
+      }
+      notify.error('messages.sendFailed', error.message || 'Failed to send message', { payload: { conversationId, error } })
       return null
     }
   }
 
-  // Edit message
+  // Whether the current user may still edit a message
+  const canEditMessage = (message: IChatMessage): boolean => {
+    if (message.isDeleted || message.type !== 'text') return false
+    if (message.status === MessageStatusEnum.PENDING || message.status === MessageStatusEnum.FAILED) return false
+    if (message.sender.id !== getCurrentUserId()) return false
+
+    const editWindow = chatConfig.messageEditWindow
+    return !editWindow || Date.now() - new Date(message.createdAt).getTime() <= editWindow
+  }
+
+  // Edit message (applied optimistically, reverted if the server rejects it)
   const editMessage = async (
     messageId: string,
     content: string
   ): Promise<boolean> => {
+    const message = findMessage(messageId)
+    if (!message) return false
+    if (!canEditMessage(message)) {
+      notify.warning('messages.editWindowExpired', 'This message can no longer be edited', { payload: { messageId } })
+      return false
+    }
+
+    const previous = { ...message, editHistory: message.editHistory?.slice() }
+    applyMessageEdit(messageId, { content, editedAt: new Date() })
+
     try {
       const data = await api.put(
-        `/chat/messages/${messageId}`,
+        `/api/chat/messages/${messageId}`,
         { content }
       )
 
-      const updatedMessage = data.message as IChatMessage
-
-      // Update in local messages
-      updateMessage(updatedMessage)
+      // Take over the server's timestamps and history
+      const updatedMessage = data.message
+      if (updatedMessage) {
+        applyMessageEdit(messageId, {
+          content: updatedMessage.content ?? content,
+          editedAt: updatedMessage.editedAt ? new Date(updatedMessage.editedAt) : undefined,
+          editHistory: parseEditHistory(updatedMessage)
+        })
+      }
 
-      ElMessage.success('Message edited')
+      notify.success('messages.edited', 'Message edited', { payload: { messageId } })
       return true
     } catch (error: any) {
       console.error('Edit message error:', error)
-      ElMessage.error(error.message || 'Failed to edit message')
+      updateMessage(previous)
+      notify.error('messages.editFailed', error.message || 'Failed to edit message', { payload: { messageId, error } })
       return false
     }
   }
 
   // Delete message
-  const deleteMessage = async (messageId: string): Promise<boolean> => {
+  // The message is tombstoned right away and only deleted on the server once the undo delay has passed
+  const deleteMessage = (
+    messageId: string,
+    mode: MessageDeleteModeEnum = MessageDeleteModeEnum.FOR_EVERYONE
+  ): Promise<boolean> => {
+    const message = findMessage(messageId)
+    if (!message || message.isDeleted || pendingDeletions.value.has(messageId)) {
+      return Promise.resolve(false)
+    }
+    if (mode === MessageDeleteModeEnum.FOR_EVERYONE && message.sender.id !== getCurrentUserId()) {
+      notify.warning('messages.deleteNotAllowed', 'You can only delete your own messages for everyone', { payload: { messageId } })
+      return Promise.resolve(false)
+    }
+
+    const previous = { ...message, editHistory: message.editHistory?.slice() }
+    applyTombstone(messageId, new Date())
+
+    return new Promise(resolve => {
+      const timer = setTimeout(async () => {
+        pendingDeletions.value.delete(messageId)
+        resolve(await commitDeletion(previous, mode))
+      }, DELETE_UNDO_DELAY)
+
+      pendingDeletions.value.set(messageId, { mode, previous, timer, resolve })
+    })
+  }
+
+  // Send a deletion to the server once it can no longer be undone
+  const commitDeletion = async (
+    previous: IChatMessage,
+    mode: MessageDeleteModeEnum,
+    keepalive = false
+  ): Promise<boolean> => {
+    const messageId = previous.id
     try {
-      await api.del(`/chat/messages/${messageId}`)
+      await api.del(`/api/chat/messages/${messageId}?mode=${mode}`, undefined, { keepalive })
 
-      // Remove from local messages
-      removeMessage(messageId)
+      if (mode === MessageDeleteModeEnum.FOR_ME) {
+        // Hidden for this user only, drop it instead of keeping a tombstone
+        removeMessage(messageId)
+      } else {
+        // Still pinned for the other participants otherwise
+        unpinDeletedMessage(messageId)
+      }
 
-      ElMessage.success('Message deleted')
+      notify.success('messages.deleted', 'Message deleted', { payload: { messageId, mode } })
       return true
     } catch (error: any) {
       console.error('Delete message error:', error)
-      ElMessage.error(error.message || 'Failed to delete message')
+      updateMessage(previous)
+      notify.error('messages.deleteFailed', error.message || 'Failed to delete message', { payload: { messageId, mode, error } })
+      return false
+    }
+  }
+
+  // The tombstones are persisted, send their deletions before the page goes away
+  // instead of losing them with the undo timers
+  const flushPendingDeletions = (keepalive = true) => {
+    Array.from(pendingDeletions.value.entries()).forEach(([messageId, pending]) => {
+      clearTimeout(pending.timer)
+      pendingDeletions.value.delete(messageId)
+      commitDeletion(pending.previous, pending.mode, keepalive).then(pending.resolve)
+    })
+  }
+
+  if (!deletionFlushRegistered && typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => flushPendingDeletions())
+    deletionFlushRegistered = true
+  }
+
+  // Cancel a deletion that is still within its undo delay
+  const undoDelete = (messageId: string): boolean => {
+    const pending = pendingDeletions.value.get(messageId)
+    if (!pending) return false
+
+    clearTimeout(pending.timer)
+    pendingDeletions.value.delete(messageId)
+    updateMessage(pending.previous)
+    pending.resolve(false)
+
+    notify.info('messages.deleteUndone', 'Message restored', { payload: { messageId } })
+    return true
+  }
+
+  // Whether a deletion is waiting for its undo delay to pass
+  const isDeletePending = (messageId: string): boolean => {
+    return pendingDeletions.value.has(messageId)
+  }
+
+  // Whether a user (the current user by default) reacted with an emoji
+  const hasReacted = (message: IChatMessage, emoji: string, userId = getCurrentUserId()): boolean => {
+    if (!userId) return false
+    return !!message.reactions?.some(r => r.emoji === emoji && r.users.some(u => u.id === userId))
+  }
+
+  // Add or remove the current user's reaction (applied optimistically, reverted if the server rejects it)
+  const toggleReaction = async (
+    messageId: string,
+    emoji: string,
+    user: IReactionUser
+  ): Promise<boolean> => {
+    const message = findMessage(messageId)
+    if (!message || message.isDeleted || isClientId(message.id)) return false
+
+    const removing = hasReacted(message, emoji, user.id)
+    applyReaction(messageId, emoji, user, !removing)
+
+    try {
+      if (removing) {
+        await api.del(`/api/chat/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`)
+      } else {
+        await api.post(`/api/chat/messages/${messageId}/reactions`, { emoji })
+      }
+      return true
+    } catch (err) {
+      const error = toChatError(err, 'Failed to update reaction')
+      console.error('Toggle reaction error:', error)
+      applyReaction(messageId, emoji, user, removing)
+      notify.error('reactions.toggleFailed', error.message, { payload: { messageId, emoji, error } })
       return false
     }
   }
@@ -186,6 +598,34 @@ export function useMessages() {
     }
   }
 
+  // Record that a user played a voice message
+  const setMessageListened = (messageId: string, userId: string) => {
+    for (const [conversationId, conversationMessages] of messages.value.entries()) {
+      const message = conversationMessages.find(m => m.id === messageId)
+      if (message) {
+        if (!message.listenedBy?.includes(userId)) {
+          message.listenedBy = [...(message.listenedBy || []), userId]
+          persistMessages(conversationId)
+        }
+        break
+      }
+    }
+  }
+
+  // Mark a voice message as listened by the current user (REST, the socket has mark_as_listened)
+  const markMessageAsListened = async (messageId: string): Promise<boolean> => {
+    const currentUserId = getCurrentUserId()
+    if (currentUserId) setMessageListened(messageId, currentUserId)
+
+    try {
+      await api.put(`/api/chat/messages/${messageId}/listened`)
+      return true
+    } catch (error) {
+      console.error('Mark message as listened error:', error)
+      return false
+    }
+  }
+
   // Mark all messages in conversation as read
   const markAllAsRead = async (conversationId: string): Promise<boolean> => {
     try {
@@ -200,6 +640,7 @@ export function useMessages() {
             msg.readBy.push(currentUserId)
           }
         })
+        persistMessages(conversationId)
       }
 
       return true
@@ -217,27 +658,405 @@ export function useMessages() {
 
     const conversationMessages = messages.value.get(conversationId)!
 
+    // Server copy of an optimistic message (socket echo or REST response)
+    const optimistic = findOptimisticMatch(conversationMessages, message)
+    if (optimistic?.clientId) {
+      reconcileMessage(conversationId, optimistic.clientId, message)
+      return
+    }
+
     // Check if message already exists
     const existingIndex = conversationMessages.findIndex(m => m.id === message.id)
     if (existingIndex >= 0) {
-      // Update existing message
-      conversationMessages[existingIndex] = message
+      // Update existing message, keeping the link to its optimistic copy
+      const existing = conversationMessages[existingIndex]!
+      conversationMessages[existingIndex] = {
+        ...message,
+        clientId: message.clientId || existing.clientId,
+        status: message.status || existing.status
+      }
     } else {
       // Add new message
       conversationMessages.push(message)
     }
 
-    // Sort by createdAt
+    sortMessages(conversationMessages)
+    updateSyncCursor(conversationId, message)
+    persistMessages(conversationId)
+  }
+
+  // Find the unconfirmed optimistic message a server message belongs to
+  const findOptimisticMatch = (
+    conversationMessages: IChatMessage[],
+    message: IChatMessage
+  ): IChatMessage | undefined => {
+    const unconfirmed = conversationMessages.filter(m => m.clientId && isClientId(m.id))
+    if (unconfirmed.length === 0 || isClientId(message.id)) return undefined
+
+    if (message.clientId) {
+      return unconfirmed.find(m => m.clientId === message.clientId)
+    }
+
+    // Backend didn't echo the client ID: match the oldest own message with the same content
+    return unconfirmed.find(m =>
+      m.sender.id === message.sender?.id &&
+      m.content === message.content &&
+      m.status !== MessageStatusEnum.FAILED
+    )
+  }
+
+  const findByClientId = (conversationId: string, clientId: string): IChatMessage | undefined => {
+    return messages.value.get(conversationId)?.find(m => m.clientId === clientId)
+  }
+
+  const sortMessages = (conversationMessages: IChatMessage[]) => {
     conversationMessages.sort((a, b) =>
       new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
     )
   }
 
+  // Insert a message before the server confirms it
+  const addOptimisticMessage = (
+    conversationId: string,
+    payload: ISendMessagePayload,
+    sender: IChatMessage['sender'],
+    clientId: string = generateClientId()
+  ): IChatMessage => {
+    const now = new Date()
+    const replyToMessage = payload.replyTo
+      ? getMessages(conversationId).find(m => m.id === payload.replyTo)
+      : undefined
+
+    const message: IChatMessage = {
+      id: clientId,
+      clientId,
+      conversationId,
+      sender,
+      content: payload.content,
+      type: payload.type || 'text',
+      fileUrl: payload.fileUrl,
+      fileName: payload.fileName,
+      attachments: payload.attachments,
+      readBy: [sender.id],
+      replyTo: payload.replyTo,
+      replyToMessage,
+      mentions: payload.mentions,
+      isEdited: false,
+      isDeleted: false,
+      status: MessageStatusEnum.PENDING,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    addMessage(conversationId, message)
+    return message
+  }
+
+  // Replace an optimistic message with the server copy (ID, timestamps, status)
+  const reconcileMessage = (
+    conversationId: string,
+    clientId: string,
+    serverMessage: Partial<IChatMessage> & { id: string }
+  ) => {
+    const conversationMessages = messages.value.get(conversationId)
+    if (!conversationMessages) return
+
+    const index = conversationMessages.findIndex(m => m.clientId === clientId)
+    if (index < 0) {
+      if (serverMessage.sender) {
+        addMessage(conversationId, serverMessage as IChatMessage)
+      }
+      return
+    }
+
+    const optimistic = conversationMessages[index]!
+    const reconciled: IChatMessage = {
+      ...optimistic,
+      ...serverMessage,
+      clientId,
+      replyToMessage: serverMessage.replyToMessage || optimistic.replyToMessage,
+      status: MessageStatusEnum.SENT
+    }
+
+    // The server copy may already be there (echo raced the acknowledgement)
+    const duplicateIndex = conversationMessages.findIndex(
+      (m, i) => i !== index && m.id === serverMessage.id
+    )
+    if (duplicateIndex >= 0) {
+      conversationMessages[duplicateIndex] = {
+        ...reconciled,
+        ...conversationMessages[duplicateIndex]!,
+        clientId,
+        status: MessageStatusEnum.SENT
+      }
+      conversationMessages.splice(index, 1)
+    } else {
+      conversationMessages[index] = reconciled
+    }
+
+    sortMessages(conversationMessages)
+    updateSyncCursor(conversationId, reconciled)
+    persistMessages(conversationId)
+  }
+
+  // Cursor pointing at the message, or null if it is not newer than the current one
+  const advanceCursor = (current: ISyncCursor | null | undefined, message: IChatMessage): ISyncCursor | null => {
+    if (isClientId(message.id) || !message.createdAt) return null
+
+    const createdAt = new Date(message.createdAt)
+    if (current && new Date(current.createdAt).getTime() >= createdAt.getTime()) return null
+
+    return { messageId: message.id, createdAt: createdAt.toISOString() }
+  }
+
+  // Move the sync cursor forward if the message is newer than the current one
+  // While the conversation awaits its backfill, only remember the newest message
+  const updateSyncCursor = (conversationId: string, message: IChatMessage) => {
+    if (heldSyncCursors.has(conversationId)) {
+      const held = advanceCursor(heldSyncCursors.get(conversationId), message)
+      if (held) heldSyncCursors.set(conversationId, held)
+      return
+    }
+
+    const next = advanceCursor(syncCursorMap.value.get(conversationId), message)
+    if (next) syncCursorMap.value.set(conversationId, next)
+  }
+
+  // Freeze every sync cursor (call when the socket drops), messages received before
+  // the backfill of a conversation then no longer hide the ones missed meanwhile
+  const holdSyncCursors = () => {
+    syncCursorMap.value.forEach((_cursor, conversationId) => {
+      if (!heldSyncCursors.has(conversationId)) heldSyncCursors.set(conversationId, null)
+    })
+  }
+
+  // Fetch every message newer than the sync cursor and merge it without duplicates
+  const syncConversation = async (conversationId: string): Promise<number> => {
+    const cursor = syncCursorMap.value.get(conversationId)
+    // Nothing loaded yet, the next getChatHistory will fetch everything
+    if (!cursor) return 0
+
+    if (!heldSyncCursors.has(conversationId)) heldSyncCursors.set(conversationId, null)
+
+    let added = 0
+    let after = cursor
+    try {
+      while (true) {
+        const params = new URLSearchParams({
+          after: after.messageId,
+          since: after.createdAt,
+          limit: SYNC_PAGE_SIZE.toString()
+        })
+        const data: IMessageHistory = await api.get(
+          `/api/chat/conversations/${conversationId}/messages?${params.toString()}`
+        )
+
+        const existingIds = new Set(getMessages(conversationId).map(m => m.id))
+        let pageCursor: ISyncCursor = after
+        data.messages.forEach(message => {
+          if (!existingIds.has(message.id)) added++
+          addMessage(conversationId, normalizeReactions(message))
+          pageCursor = advanceCursor(pageCursor, message) || pageCursor
+        })
+
+        // Each backfilled page is confirmed, a failure on the next one resumes from here
+        syncCursorMap.value.set(conversationId, pageCursor)
+        if (data.messages.length < SYNC_PAGE_SIZE || pageCursor.messageId === after.messageId) break
+        after = pageCursor
+      }
+
+      // Backfill complete, live messages received meanwhile may move the cursor again
+      const held = heldSyncCursors.get(conversationId)
+      const synced = syncCursorMap.value.get(conversationId)
+      heldSyncCursors.delete(conversationId)
+      if (held && (!synced || new Date(held.createdAt).getTime() > new Date(synced.createdAt).getTime())) {
+        syncCursorMap.value.set(conversationId, held)
+      }
+
+      if (added > 0) {
+        // Backfilled replies may point to messages of the same batch or already loaded
+        messages.value.set(
+          conversationId,
+          resolveReplyToReferences(getMessages(conversationId), { verbose: false, warnOnMissing: false })
+        )
+        const total = totalMessagesMap.value.get(conversationId)
+        if (total !== undefined) {
+          totalMessagesMap.value.set(conversationId, total + added)
+        }
+      }
+
+      console.log(`🔁 Synced ${added} missed messages for ${conversationId}`)
+      return added
+    } catch (error) {
+      // The cursor stays frozen, the next sync resumes from the last backfilled page
+      console.error('Sync messages error:', error)
+      return added
+    }
+  }
+
+  // Backfill several conversations (e.g. every joined conversation after a reconnect)
+  const syncConversations = async (conversationIds: string[]): Promise<void> => {
+    isSyncing.value = true
+    try {
+      for (const conversationId of conversationIds) {
+        await syncConversation(conversationId)
+      }
+    } finally {
+      isSyncing.value = false
+    }
+  }
+
+  // Update the local delivery status of an optimistic message
+  const setMessageStatus = (
+    conversationId: string,
+    clientId: string,
+    status: MessageStatusEnum
+  ) => {
+    const message = findByClientId(conversationId, clientId)
+    if (message) {
+      message.status = status
+    }
+  }
+
+  const findMessage = (messageId: string): IChatMessage | undefined => {
+    for (const conversationMessages of messages.value.values()) {
+      const message = conversationMessages.find(m => m.id === messageId)
+      if (message) return message
+    }
+    return undefined
+  }
+
+  // Apply a local or remote edit, keeping the replaced content as a revision
+  const applyMessageEdit = (messageId: string, edit: IMessageEdit) => {
+    for (const [conversationId, conversationMessages] of messages.value.entries()) {
+      const message = conversationMessages.find(m => m.id === messageId)
+      if (!message) continue
+
+      if (edit.editHistory) {
+        message.editHistory = edit.editHistory
+      } else if (message.content !== edit.content) {
+        message.editHistory = [
+          ...(message.editHistory || []),
+          { content: message.content, replacedAt: edit.editedAt || new Date() }
+        ]
+      }
+
+      message.content = edit.content
+      message.isEdited = true
+      message.editedAt = edit.editedAt || message.editedAt || new Date()
+      message.updatedAt = message.editedAt
+
+      // Replies show a snapshot of this message
+      conversationMessages.forEach(m => {
+        if (m.replyToMessage?.id === messageId) {
+          m.replyToMessage = message
+        }
+      })
+
+      persistMessages(conversationId)
+      break
+    }
+  }
+
+  // Add or remove one user's reaction locally (idempotent, so socket echoes of own reactions are harmless)
+  const applyReaction = (messageId: string, emoji: string, user: IReactionUser, added: boolean) => {
+    for (const [conversationId, conversationMessages] of messages.value.entries()) {
+      const message = conversationMessages.find(m => m.id === messageId)
+      if (!message) continue
+
+      const reactions = (message.reactions || []).map(r => ({ ...r, users: [...r.users] }))
+      const reaction = reactions.find(r => r.emoji === emoji)
+      const reacted = !!reaction?.users.some(u => u.id === user.id)
+
+      if (added && !reacted) {
+        if (reaction) {
+          reaction.users.push(user)
+        } else {
+          reactions.push({ emoji, users: [user] })
+        }
+      } else if (!added && reaction && reacted) {
+        reaction.users = reaction.users.filter(u => u.id !== user.id)
+      } else {
+        break
+      }
+
+      message.reactions = reactions.filter(r => r.users.length > 0)
+      persistMessages(conversationId)
+      break
+    }
+  }
+
+  // REST messages carry reactions in the backend format, aggregate them per emoji
+  const normalizeReactions = (message: IChatMessage): IChatMessage => {
+    if (message.reactions) {
+      message.reactions = parseReactions(message)
+    }
+    return message
+  }
+
+  // Replace a message by a tombstone, returns the conversation it belongs to
+  const applyTombstone = (messageId: string, deletedAt: Date): string | undefined => {
+    for (const [conversationId, conversationMessages] of messages.value.entries()) {
+      const message = conversationMessages.find(m => m.id === messageId)
+      if (!message) continue
+
+      message.isDeleted = true
+      message.deletedAt = deletedAt
+      message.content = ''
+      message.fileUrl = undefined
+      message.fileName = undefined
+      message.attachments = undefined
+      message.editHistory = undefined
+      message.reactions = undefined
+
+      // Replies show a snapshot of this message
+      conversationMessages.forEach(m => {
+        if (m.replyToMessage?.id === messageId) {
+          m.replyToMessage = message
+        }
+      })
+
+      persistMessages(conversationId)
+      return conversationId
+    }
+    return undefined
+  }
+
+  // Apply a "delete for everyone" made by another participant (or another tab)
+  const applyRemoteDeletion = (messageId: string, deletedAt?: string | Date) => {
+    // A remote deletion wins over a local one that is still pending
+    const pending = pendingDeletions.value.get(messageId)
+    if (pending) {
+      clearTimeout(pending.timer)
+      pendingDeletions.value.delete(messageId)
+      pending.resolve(true)
+    }
+
+    if (applyTombstone(messageId, deletedAt ? new Date(deletedAt) : new Date())) {
+      unpinDeletedMessage(messageId)
+    }
+  }
+
+  // Deleted messages cannot stay pinned
+  const unpinDeletedMessage = (messageId: string) => {
+    for (const [conversationId, pinned] of pinnedMessages.value.entries()) {
+      if (pinned.some(pm => pm.message.id === messageId)) {
+        removePinnedMessage(conversationId, messageId)
+      }
+    }
+  }
+
   const updateMessage = (message: IChatMessage) => {
     for (const [conversationId, conversationMessages] of messages.value.entries()) {
       const index = conversationMessages.findIndex(m => m.id === message.id)
       if (index >= 0) {
         conversationMessages[index] = message
+        conversationMessages.forEach(m => {
+          if (m.replyToMessage?.id === message.id) {
+            m.replyToMessage = message
+          }
+        })
+        persistMessages(conversationId)
         break
       }
     }
@@ -248,6 +1067,18 @@ export function useMessages() {
       const index = conversationMessages.findIndex(m => m.id === messageId)
       if (index >= 0) {
         conversationMessages.splice(index, 1)
+        persistMessages(conversationId)
+        break
+      }
+    }
+  }
+
+  const updateMessageListenedBy = (messageId: string, listenedBy: string[]) => {
+    for (const [conversationId, conversationMessages] of messages.value.entries()) {
+      const message = conversationMessages.find(m => m.id === messageId)
+      if (message) {
+        message.listenedBy = listenedBy
+        persistMessages(conversationId)
         break
       }
     }
@@ -258,6 +1089,7 @@ export function useMessages() {
       const message = conversationMessages.find(m => m.id === messageId)
       if (message) {
         message.readBy = readBy
+        persistMessages(conversationId)
         break
       }
     }
@@ -283,22 +1115,27 @@ export function useMessages() {
   const clearMessages = (conversationId: string) => {
     messages.value.delete(conversationId)
     totalMessagesMap.value.delete(conversationId)
-    currentPageMap.value.delete(conversationId)
+    historyCursorMap.value.delete(conversationId)
+    syncCursorMap.value.delete(conversationId)
+    heldSyncCursors.delete(conversationId)
+    persistence.remove('messages', conversationId)
+  }
+
+  // Forget every message of the signed-in user (sign-out or user switch), the cache is kept
+  const resetMessages = () => {
+    // Still sent for the user who deleted them
+    flushPendingDeletions(false)
+    messages.value.clear()
+    totalMessagesMap.value.clear()
+    historyCursorMap.value.clear()
+    syncCursorMap.value.clear()
+    heldSyncCursors.clear()
   }
 
   // Helper to get current user ID from token
   const getCurrentUserId = (): string | null => {
-    const token = localStorage.getItem('accessToken')
-    if (!token) return null
-
-    try {
-      const parts = token.split('.')
-      if (parts.length !== 3 || !parts[1]) return null
-      const payload = JSON.parse(atob(parts[1]))
-      return payload.sub || payload.userId || payload.id || null
-    } catch (error) {
-      return null
-    }
+    const token = chatConfig.tokenProvider.getToken()
+    return token ? getJwtUserId(token) : null
   }
 
   return {
@@ -306,24 +1143,52 @@ export function useMessages() {
     messages,
     isLoadingMessages,
     totalMessagesMap,
-    currentPageMap,
+    historyCursorMap,
+    syncCursorMap,
+    isSyncing,
+    isLoadingOlder,
+    pendingDeletions,
 
     // REST API methods
     getChatHistory,
+    loadOlderMessages,
+    hasMoreMessages,
     sendMessage,
+    resendMessage,
     editMessage,
     deleteMessage,
+    undoDelete,
+    isDeletePending,
+    toggleReaction,
     markMessageAsRead,
+    markMessageAsListened,
     markAllAsRead,
+    syncConversation,
+    syncConversations,
+    holdSyncCursors,
+    loadMessageWindow,
 
     // Local state management
     addMessage,
+    addOptimisticMessage,
+    reconcileMessage,
+    setMessageStatus,
     updateMessage,
+    applyMessageEdit,
+    applyRemoteDeletion,
+    applyReaction,
+    hasReacted,
+    findMessage,
+    canEditMessage,
     removeMessage,
     updateMessageReadBy,
+    updateMessageListenedBy,
+    setMessageListened,
     getMessages,
     getUnreadCount,
     clearMessages,
+    resetMessages,
+    hydrateMessages,
     getCurrentUserId
   }
 }
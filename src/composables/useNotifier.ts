@@ -0,0 +1,34 @@
+import { useChatConfig } from './useChatConfig'
+import type { INotification } from '../interfaces/notifier.interface'
+
+type NotifyOptions = Pick<INotification, 'payload' | 'duration' | 'closable'>
+
+/**
+ * Emit notifications to the notifier configured through install()
+ */
+export function useNotifier() {
+  const { notifier } = useChatConfig()
+
+  const info = (key: string, message: string, options: NotifyOptions = {}) => {
+    notifier.info({ key, message, ...options })
+  }
+
+  const success = (key: string, message: string, options: NotifyOptions = {}) => {
+    notifier.success({ key, message, ...options })
+  }
+
+  const warning = (key: string, message: string, options: NotifyOptions = {}) => {
+    notifier.warning({ key, message, ...options })
+  }
+
+  const error = (key: string, message: string, options: NotifyOptions = {}) => {
+    notifier.error({ key, message, ...options })
+  }
+
+  return {
+    info,
+    success,
+    warning,
+    error
+  }
+}
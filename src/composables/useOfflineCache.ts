@@ -0,0 +1,75 @@
+import { watch } from 'vue'
+import { useAuth } from './useAuth'
+import { usePersistence } from './usePersistence'
+import { useConversation } from './useConversation'
+import { useMessages } from './useMessages'
+import { usePinMessage } from './usePinMessage'
+import { useThreads } from './useThreads'
+import { useChatConfig } from './useChatConfig'
+
+let isWatching = false
+
+/**
+ * Keep the offline cache in sync with the authenticated user
+ *
+ * Every user gets their own partition; when a user signs in, their cached
+ * conversations, messages, pinned messages and user cache are loaded before the API responds.
+ * The data of the previous user is dropped from memory first, so it is neither shown
+ * to the next user nor written into their partition.
+ */
+export function useOfflineCache() {
+  const { currentUser } = useAuth()
+  const persistence = usePersistence()
+  const { hydrateConversations, resetConversations } = useConversation()
+  const { hydrateMessages, resetMessages } = useMessages()
+  const { hydratePinnedMessages, resetPinnedMessages } = usePinMessage()
+  const { resetThreads } = useThreads()
+  const { features } = useChatConfig()
+
+  // Drop the signed-in user's data from memory; their last changes are written to their
+  // partition first, writes scheduled meanwhile are discarded
+  const resetUserState = async () => {
+    await persistence.flush()
+    resetMessages()
+    resetConversations()
+    resetPinnedMessages()
+    resetThreads()
+    persistence.discardPendingWrites()
+  }
+
+  // Load everything cached for the current partition
+  const hydrate = async () => {
+    if (!persistence.partition.value) return
+
+    await Promise.all([
+      hydrateConversations(),
+      hydrateMessages(),
+      hydratePinnedMessages()
+    ])
+    console.log('💾 Hydrated offline cache for user:', persistence.partition.value)
+  }
+
+  if (!isWatching && features.offlineCache) {
+    isWatching = true
+    watch(
+      () => currentUser.value?.id || null,
+      async (userId) => {
+        // Switching away from a user (a signed-out app holds no user data)
+        if (persistence.partition.value && persistence.partition.value !== userId) {
+          await resetUserState()
+        }
+        await persistence.setPartition(userId)
+        await hydrate()
+      },
+      { immediate: true }
+    )
+  }
+
+  return {
+    partition: persistence.partition,
+    hydrate,
+    resetUserState,
+    flush: persistence.flush,
+    clearCache: persistence.clearPartition
+  }
+}
@@ -0,0 +1,216 @@
+import { ref } from 'vue'
+import type {
+  IStorageAdapter,
+  IPersistenceConfig,
+  StorageStoreName
+} from '../interfaces/storage.interface'
+import { createIndexedDBAdapter } from '../utils/storageAdapters'
+import { useChatConfig } from './useChatConfig'
+
+interface IPendingWrite {
+  adapter: IStorageAdapter // Of the app that scheduled the write
+  store: StorageStoreName
+  key: string
+  getValue: () => unknown
+}
+
+// Dates are stored as ISO strings and revived for these keys only
+const DATE_KEY_PATTERN = /(At|^timestamp|^lastSeen)$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+// State
+let adapter: IStorageAdapter | null = null // configurePersistence() adapter, used by apps without storageAdapter
+let indexedDBAdapter: IStorageAdapter | null = null
+let maxMessagesPerConversation = 200
+let maxConversations = 50
+let flushDelay = 300
+const partition = ref<string | null>(null) // Authenticated user ID, every key is prefixed with it
+const pendingWrites = new Map<string, IPendingWrite>()
+const writeTimes = new Map<string, number>() // messages store key -> last write, for eviction
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Configure the offline cache
+ *
+ * Must run before the first read or write, otherwise the IndexedDB adapter is used.
+ * The storageAdapter install option of an app takes precedence for that app.
+ */
+export function configurePersistence(config: IPersistenceConfig = {}) {
+  adapter = config.adapter || null
+  maxMessagesPerConversation = config.maxMessagesPerConversation ?? maxMessagesPerConversation
+  maxConversations = config.maxConversations ?? maxConversations
+  flushDelay = config.flushDelay ?? flushDelay
+}
+
+const getDefaultAdapter = (): IStorageAdapter => {
+  if (adapter) return adapter
+  if (!indexedDBAdapter) {
+    indexedDBAdapter = createIndexedDBAdapter()
+  }
+  return indexedDBAdapter
+}
+
+const reviveDates = (key: string, value: unknown) => {
+  if (typeof value === 'string' && DATE_KEY_PATTERN.test(key) && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value)
+  }
+  return value
+}
+
+export function usePersistence() {
+  const { storageAdapter } = useChatConfig()
+  const getAdapter = (): IStorageAdapter => storageAdapter || getDefaultAdapter()
+  const prefix = () => `${partition.value}:`
+
+  // Switch to the cache of another user (null disables reads and writes)
+  const setPartition = async (userId: string | null) => {
+    if (partition.value === userId) return
+
+    await flush()
+    partition.value = userId
+    writeTimes.clear()
+  }
+
+  // Read one value of the current user
+  const read = async <T>(store: StorageStoreName, key: string): Promise<T | undefined> => {
+    if (!partition.value) return undefined
+
+    try {
+      const record = await getAdapter().getItem(store, prefix() + key)
+      return record ? (JSON.parse(record.data, reviveDates) as T) : undefined
+    } catch (error) {
+      console.error(`Failed to read ${store}/${key} from cache:`, error)
+      return undefined
+    }
+  }
+
+  // Read every value of a store for the current user, keyed without the partition prefix
+  const readAll = async <T>(store: StorageStoreName): Promise<Map<string, T>> => {
+    const result = new Map<string, T>()
+    if (!partition.value) return result
+
+    try {
+      const entries = await getAdapter().getAll(store, prefix())
+      entries.forEach(({ key, record }) => {
+        const unprefixedKey = key.substring(prefix().length)
+        result.set(unprefixedKey, JSON.parse(record.data, reviveDates) as T)
+        if (store === 'messages') {
+          writeTimes.set(unprefixedKey, record.updatedAt)
+        }
+      })
+    } catch (error) {
+      console.error(`Failed to read ${store} from cache:`, error)
+    }
+    return result
+  }
+
+  // Schedule a write; the value is computed at flush time so rapid mutations are batched
+  const write = (store: StorageStoreName, key: string, getValue: () => unknown) => {
+    if (!partition.value) return
+
+    pendingWrites.set(`${store}/${key}`, { adapter: getAdapter(), store, key, getValue })
+    if (!flushTimer) {
+      flushTimer = setTimeout(() => {
+        flush()
+      }, flushDelay)
+    }
+  }
+
+  // Remove a value of the current user
+  const remove = async (store: StorageStoreName, key: string) => {
+    if (!partition.value) return
+
+    pendingWrites.delete(`${store}/${key}`)
+    writeTimes.delete(key)
+    try {
+      await getAdapter().removeItem(store, prefix() + key)
+    } catch (error) {
+      console.error(`Failed to remove ${store}/${key} from cache:`, error)
+    }
+  }
+
+  // Write every scheduled value now
+  const flush = async () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer)
+      flushTimer = null
+    }
+    if (!partition.value || pendingWrites.size === 0) return
+
+    const writes = Array.from(pendingWrites.values())
+    pendingWrites.clear()
+    const now = Date.now()
+
+    await Promise.all(writes.map(async ({ adapter: target, store, key, getValue }) => {
+      try {
+        await target.setItem(store, prefix() + key, {
+          data: JSON.stringify(getValue()),
+          updatedAt: now
+        })
+        if (store === 'messages') {
+          writeTimes.set(key, now)
+        }
+      } catch (error) {
+        console.error(`Failed to write ${store}/${key} to cache:`, error)
+      }
+    }))
+
+    await evictConversations()
+  }
+
+  // Keep messages of the most recently written conversations only
+  const evictConversations = async () => {
+    if (writeTimes.size <= maxConversations) return
+
+    const oldest = Array.from(writeTimes.entries())
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, writeTimes.size - maxConversations)
+
+    for (const [key] of oldest) {
+      await remove('messages', key)
+    }
+  }
+
+  // Drop scheduled writes without running them (their values may already be gone from memory)
+  const discardPendingWrites = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer)
+      flushTimer = null
+    }
+    pendingWrites.clear()
+  }
+
+  // Delete everything cached for the current user
+  const clearPartition = async () => {
+    if (!partition.value) return
+
+    pendingWrites.clear()
+    writeTimes.clear()
+    try {
+      await getAdapter().clear(prefix())
+    } catch (error) {
+      console.error('Failed to clear cache:', error)
+    }
+  }
+
+  // Most recent messages kept per conversation
+  const getMessageLimit = () => maxMessagesPerConversation
+
+  return {
+    // State
+    partition,
+
+    // Limits
+    getMessageLimit,
+
+    // Methods
+    setPartition,
+    read,
+    readAll,
+    write,
+    remove,
+    flush,
+    discardPendingWrites,
+    clearPartition
+  }
+}
@@ -1,19 +1,44 @@
 import { ref } from 'vue'
-import { ElMessage } from 'element-plus'
 import { useApi } from './useApi'
+import { useNotifier } from './useNotifier'
+import { usePersistence } from './usePersistence'
+import { toChatError } from '../utils/errors'
 import type {
   IPinnedMessage,
   IConversationPinnedMessages
 } from '@/interfaces/pin.interface'
 
+// Shared cache so socket handlers and components see the same pinned messages
+const pinnedMessages = ref<Map<string, IPinnedMessage[]>>(new Map())
+
 export function usePinMessage() {
   const api = useApi()
+  const notify = useNotifier()
+  const persistence = usePersistence()
 
   // State
-  const pinnedMessages = ref<Map<string, IPinnedMessage[]>>(new Map())
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
+  /**
+   * Write pinned messages of a conversation through to the offline cache
+   */
+  const persistPinnedMessages = (conversationId: string) => {
+    persistence.write('pinnedMessages', conversationId, () => getPinnedMessagesFromCache(conversationId))
+  }
+
+  /**
+   * Load cached pinned messages (conversations already loaded from the API win)
+   */
+  const hydratePinnedMessages = async () => {
+    const cached = await persistence.readAll<IPinnedMessage[]>('pinnedMessages')
+    cached.forEach((pinned, conversationId) => {
+      if (!pinnedMessages.value.has(conversationId)) {
+        pinnedMessages.value.set(conversationId, pinned)
+      }
+    })
+  }
+
   /**
    * Pin a message
    */
@@ -27,15 +52,15 @@ export function usePinMessage() {
       })
 
       if (response.success !== false) {
-        ElMessage.success('Message pinned successfully')
+        notify.success('pin.pinned', 'Message pinned successfully', { payload: { messageId } })
         return true
       } else {
         throw new Error(response.message || 'Failed to pin message')
       }
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to pin message'
+    } catch (err) {
+      const errorMessage = toChatError(err, 'Failed to pin message').message
       error.value = errorMessage
-      ElMessage.error(errorMessage)
+      notify.error('pin.pinFailed', errorMessage, { payload: { messageId, error: err } })
       console.error('❌ Pin message error:', err)
       return false
     } finally {
@@ -54,15 +79,15 @@ export function usePinMessage() {
       const response = await api.del(`/api/chat/messages/${messageId}/pin`)
 
       if (response.success !== false) {
-        ElMessage.success('Message unpinned successfully')
+        notify.success('pin.unpinned', 'Message unpinned successfully', { payload: { messageId } })
         return true
       } else {
         throw new Error(response.message || 'Failed to unpin message')
       }
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to unpin message'
+    } catch (err) {
+      const errorMessage = toChatError(err, 'Failed to unpin message').message
       error.value = errorMessage
-      ElMessage.error(errorMessage)
+      notify.error('pin.unpinFailed', errorMessage, { payload: { messageId, error: err } })
       console.error('❌ Unpin message error:', err)
       return false
     } finally {
@@ -85,13 +110,14 @@ export function usePinMessage() {
       if (response.pinnedMessages) {
         // Store in map
         pinnedMessages.value.set(conversationId, response.pinnedMessages)
+        persistPinnedMessages(conversationId)
         console.log(`✅ Loaded ${response.totalPinned} pinned messages for conversation ${conversationId}`)
         return response.pinnedMessages
       } else {
         return []
       }
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to get pinned messages'
+    } catch (err) {
+      const errorMessage = toChatError(err, 'Failed to get pinned messages').message
       error.value = errorMessage
       console.error('❌ Get pinned messages error:', err)
       return []
@@ -116,15 +142,15 @@ export function usePinMessage() {
       )
 
       if (response.message === 'Message reordered successfully' || response.success !== false) {
-        ElMessage.success('Message reordered successfully')
+        notify.success('pin.reordered', 'Message reordered successfully', { payload: { messageId } })
         return true
       } else {
         throw new Error(response.message || 'Failed to reorder message')
       }
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to reorder message'
+    } catch (err) {
+      const errorMessage = toChatError(err, 'Failed to reorder message').message
       error.value = errorMessage
-      ElMessage.error(errorMessage)
+      notify.error('pin.reorderFailed', errorMessage, { payload: { messageId, error: err } })
       console.error('❌ Reorder message error:', err)
       return false
     } finally {
@@ -154,11 +180,13 @@ export function usePinMessage() {
       // Sort by order
       existing.sort((a, b) => a.order - b.order)
       pinnedMessages.value.set(conversationId, existing)
+      persistPinnedMessages(conversationId)
       console.log(`✅ Added pinned message to cache:`, pinnedMessage.message.id)
     } else {
       // Update existing
       existing[index] = pinnedMessage
       pinnedMessages.value.set(conversationId, existing)
+      persistPinnedMessages(conversationId)
       console.log(`✅ Updated pinned message in cache:`, pinnedMessage.message.id)
     }
   }
@@ -176,6 +204,7 @@ export function usePinMessage() {
     })
 
     pinnedMessages.value.set(conversationId, filtered)
+    persistPinnedMessages(conversationId)
     console.log(`✅ Removed pinned message from cache:`, messageId)
   }
 
@@ -206,6 +235,7 @@ export function usePinMessage() {
     })
 
     pinnedMessages.value.set(conversationId, existing)
+    persistPinnedMessages(conversationId)
     console.log(`✅ Updated pinned message order:`, messageId, 'to', newOrder)
   }
 
@@ -215,11 +245,18 @@ export function usePinMessage() {
   const clearPinnedMessages = (conversationId?: string) => {
     if (conversationId) {
       pinnedMessages.value.delete(conversationId)
+      persistence.remove('pinnedMessages', conversationId)
     } else {
+      Array.from(pinnedMessages.value.keys()).forEach(id => persistence.remove('pinnedMessages', id))
       pinnedMessages.value.clear()
     }
   }
 
+  // Forget the pinned messages of the signed-in user, the cache is kept
+  const resetPinnedMessages = () => {
+    pinnedMessages.value.clear()
+  }
+
   return {
     // State
     pinnedMessages,
@@ -235,6 +272,8 @@ export function usePinMessage() {
     addPinnedMessage,
     removePinnedMessage,
     updatePinnedMessageOrder,
-    clearPinnedMessages
+    clearPinnedMessages,
+    hydratePinnedMessages,
+    resetPinnedMessages
   }
 }
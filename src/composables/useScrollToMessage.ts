@@ -0,0 +1,65 @@
+import { ref } from 'vue'
+import { useMessages } from './useMessages'
+import { useNotifier } from './useNotifier'
+
+export interface IScrollTarget {
+  conversationId: string
+  messageId: string
+  requestedAt: number // Distinguishes repeated jumps to the same message
+}
+
+const HIGHLIGHT_DURATION = 2000
+
+// Shared jump state, ChatList scrolls to the target once it is rendered
+const scrollTarget = ref<IScrollTarget | null>(null)
+const highlightedMessageId = ref('')
+const isJumping = ref(false)
+let highlightTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Jump to any message of a conversation
+ *
+ * Messages outside the loaded pages are loaded together with their surrounding
+ * history first; ChatList then scrolls to the message and highlights it.
+ */
+export function useScrollToMessage() {
+  const { loadMessageWindow } = useMessages()
+  const notify = useNotifier()
+
+  const scrollToMessage = async (conversationId: string, messageId: string): Promise<boolean> => {
+    isJumping.value = true
+    try {
+      const message = await loadMessageWindow(conversationId, messageId)
+      if (!message) {
+        notify.warning('messages.jumpFailed', 'This message is no longer available', { payload: { conversationId, messageId } })
+        return false
+      }
+
+      scrollTarget.value = { conversationId, messageId, requestedAt: Date.now() }
+      highlightMessage(messageId)
+      return true
+    } finally {
+      isJumping.value = false
+    }
+  }
+
+  const highlightMessage = (messageId: string) => {
+    if (highlightTimer) clearTimeout(highlightTimer)
+
+    highlightedMessageId.value = messageId
+    highlightTimer = setTimeout(() => {
+      highlightedMessageId.value = ''
+      highlightTimer = null
+    }, HIGHLIGHT_DURATION)
+  }
+
+  return {
+    // State
+    scrollTarget,
+    highlightedMessageId,
+    isJumping,
+
+    // Methods
+    scrollToMessage
+  }
+}
@@ -1,4 +1,4 @@
-import { ref, onMounted, onUnmounted } from 'vue'
+import { ref, shallowRef, computed, onMounted, onUnmounted, type Ref } from 'vue'
 import { io, Socket } from 'socket.io-client'
 import type { IMessage } from '../interfaces/message.interface'
 import type { IConversation } from '../interfaces/conversation.interface'
@@ -9,10 +9,41 @@ import type {
   IConversationPinnedMessages
 } from '../interfaces/pin.interface'
 import type { IFriendshipNotification } from '../interfaces/friendship.interface'
+import type {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  ServerToClientEventName,
+  ClientToServerEventName,
+  IUserTypingEvent,
+  IMessageReadEvent,
+  IMessageListenedEvent,
+  IMessageDeletedEvent,
+  IMessageReactionEvent,
+  IConversationUpdatedEvent,
+  ISocketSendMessage,
+  IOutboundMessage
+} from '../interfaces/socket.interface'
+import { SocketEventEnum } from '../enums/socket.enum'
+import { MessageStatusEnum } from '../enums/message.enum'
 import { normalizeSocketMessage, normalizeSocketConversation } from '../utils/socketMessageParser'
+import { generateClientId } from '../utils/clientId'
+import { getJwtUserId } from '../utils/jwt'
+import { ChatError, createSocketError, toChatError } from '../utils/errors'
+import { useChatConfig } from './useChatConfig'
+import { onTokenRefreshed } from './useApi'
+
+export type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+// ChatSocket seen through one event: socket.io-client types listeners with a conditional
+// type that stays unresolved for a generic event, while methods compare their parameters
+// both ways, so a ChatSocket is assignable to this
+interface IEventListenerTarget<E extends ServerToClientEventName> {
+  on(event: E, callback: ServerToClientEvents[E]): unknown
+  off(event: E, callback?: ServerToClientEvents[E]): unknown
+}
 
-interface SocketConfig {
-  url: string
+export interface SocketConfig {
+  url?: string // Defaults to the socketUrl passed to install()
   options?: {
     autoConnect?: boolean
     reconnection?: boolean
@@ -22,16 +53,28 @@ interface SocketConfig {
     transports?: string[]
     auth?: Record<string, any>
   }
+  queue?: {
+    storageKey?: string // localStorage key prefix for persisted outbound messages, suffixed with the user ID
+    ackTimeout?: number // ms to wait for the server acknowledgement
+    maxRetries?: number // attempts before a message is marked as failed
+    retryDelay?: number // base delay in ms, doubled on each attempt
+  }
 }
 
-interface SocketEvents {
+export interface SocketEvents {
   onConnect?: () => void
+  onReconnect?: (joinedConversationIds: string[]) => void // Connected again after a drop, rooms already rejoined
   onDisconnect?: () => void
-  onError?: (error: Error) => void
+  onError?: (error: ChatError) => void
   onNewMessage?: (message: IMessage) => void
-  onUserTyping?: (data: { userId: string; conversationId: string; isTyping: boolean }) => void
-  onMessageRead?: (data: { messageId: string; readBy: string[] }) => void
-  onConversationUpdated?: (data: { conversationId: string; lastMessage?: IMessage }) => void
+  onUserTyping?: (data: IUserTypingEvent) => void
+  onMessageRead?: (data: IMessageReadEvent) => void
+  onMessageListened?: (data: IMessageListenedEvent) => void // A voice message was played
+  onMessageUpdated?: (message: IMessage) => void // Edited by another participant (or another tab)
+  onMessageDeleted?: (data: IMessageDeletedEvent) => void // Deleted for everyone by its sender
+  onReactionAdded?: (data: IMessageReactionEvent) => void
+  onReactionRemoved?: (data: IMessageReactionEvent) => void
+  onConversationUpdated?: (data: IConversationUpdatedEvent) => void
   onUserOnline?: (userId: string) => void
   onUserOffline?: (userId: string) => void
   onOnlineUsers?: (userIds: string[]) => void // Initial online users list
@@ -44,14 +87,91 @@ interface SocketEvents {
   onFriendRequestReceived?: (data: IFriendshipNotification) => void
   onFriendRequestAccepted?: (data: IFriendshipNotification) => void
   onFriendRequestDeclined?: (data: IFriendshipNotification) => void
+  // Outbound queue events
+  onMessageStatusChange?: (entry: IOutboundMessage) => void
   currentUserId?: string // Add current user ID for message normalization
 }
 
-export function useSocket(config: SocketConfig, events?: SocketEvents) {
-  const socket = ref<Socket | null>(null)
+const DEFAULT_QUEUE_STORAGE_KEY = 'chat_outbound_queue'
+
+// Outbound messages of one user, shared by every useSocket instance
+interface IOutboundQueue {
+  storageKey: string
+  entries: Ref<IOutboundMessage[]>
+  flushing: boolean // One instance sends at a time, so no entry goes out twice
+}
+
+const outboundQueues = new Map<string, IOutboundQueue>()
+
+// Load persisted outbound messages (messages already sent are never persisted)
+const loadOutboundQueue = (storageKey: string): IOutboundMessage[] => {
+  try {
+    const raw = localStorage.getItem(storageKey)
+    return raw ? (JSON.parse(raw) as IOutboundMessage[]) : []
+  } catch (err) {
+    console.error('Failed to load outbound queue:', err)
+    return []
+  }
+}
+
+const saveOutboundQueue = (queue: IOutboundQueue) => {
+  try {
+    if (queue.entries.value.length > 0) {
+      localStorage.setItem(queue.storageKey, JSON.stringify(queue.entries.value))
+    } else {
+      localStorage.removeItem(queue.storageKey)
+    }
+  } catch (err) {
+    console.error('Failed to persist outbound queue:', err)
+  }
+}
+
+const getOutboundQueue = (storageKey: string): IOutboundQueue => {
+  let queue = outboundQueues.get(storageKey)
+  if (!queue) {
+    queue = { storageKey, entries: ref(loadOutboundQueue(storageKey)), flushing: false }
+    outboundQueues.set(storageKey, queue)
+  }
+  return queue
+}
+
+export function useSocket(config: SocketConfig = {}, events?: SocketEvents) {
+  const chatConfig = useChatConfig()
+  const socketUrl = config.url || chatConfig.socketUrl
+  const socket = shallowRef<ChatSocket | null>(null)
   const isConnected = ref(false)
   const isConnecting = ref(false)
-  const error = ref<Error | null>(null)
+  const error = ref<ChatError | null>(null)
+
+  // Outbound message queue, persisted per user: another account signing in on
+  // this browser never sends (or sees) these messages
+  const queueKeyPrefix = config.queue?.storageKey || DEFAULT_QUEUE_STORAGE_KEY
+  const ackTimeout = config.queue?.ackTimeout || 10000
+  const maxRetries = config.queue?.maxRetries || 3
+  const retryDelay = config.queue?.retryDelay || 1000
+  const getUserQueue = (userId: string) => getOutboundQueue(`${queueKeyPrefix}:${userId || 'anonymous'}`)
+
+  // The token identifies the user (events.currentUserId is only read once, at setup)
+  const getQueueUserId = () => getJwtUserId(chatConfig.tokenProvider.getToken() || '') || events?.currentUserId || ''
+
+  // The user's queue is loaded as soon as the user is known, not when it is first read
+  const queue = shallowRef<IOutboundQueue>(getUserQueue(getQueueUserId()))
+  const outboundQueue = computed(() => queue.value.entries.value)
+
+  const refreshQueueUser = () => {
+    queue.value = getUserQueue(getQueueUserId())
+  }
+
+  // Queues persisted before they were scoped by user have no known owner
+  try {
+    localStorage.removeItem(queueKeyPrefix)
+  } catch {
+    // Storage unavailable, nothing was persisted either
+  }
+
+  // Conversations to (re)join on every connect
+  const joinedConversations = ref<Set<string>>(new Set())
+  let hasConnectedBefore = false
 
   // Connect to socket server
   const connect = () => {
@@ -62,9 +182,10 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
 
     isConnecting.value = true
     error.value = null
+    refreshQueueUser()
 
-    // Get fresh token from localStorage every time we connect
-    const currentToken = localStorage.getItem('accessToken') || localStorage.getItem('auth_token') || ''
+    // Get fresh token from the token provider every time we connect
+    const currentToken = chatConfig.tokenProvider.getToken() || ''
     console.log('🔌 Connecting with fresh token:', currentToken ? currentToken.substring(0, 20) + '...' : 'No token')
 
     // Update auth config with fresh token
@@ -84,7 +205,7 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
 
     console.log('Connecting to socket server...', socketConfig)
     try {
-      socket.value = io(config.url, socketConfig)
+      socket.value = io(socketUrl, socketConfig)
 
       // Setup event listeners
       setupSocketListeners()
@@ -92,7 +213,7 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
       // Connect
       socket.value.connect()
     } catch (err) {
-      error.value = err as Error
+      error.value = toChatError(err)
       isConnecting.value = false
       console.error('Socket connection error:', err)
     }
@@ -111,14 +232,13 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
   const reconnectWithNewToken = (newToken: string) => {
     console.log('🔄 Reconnecting socket with new token...')
 
-    // Save token to localStorage first
-    localStorage.setItem('accessToken', newToken)
-    localStorage.setItem('auth_token', newToken)
+    // Save token first
+    chatConfig.tokenProvider.setToken?.(newToken)
 
     // Disconnect existing connection
     disconnect()
 
-    // Reconnect (will automatically pick up new token from localStorage)
+    // Reconnect (will automatically pick up new token from the token provider)
     setTimeout(() => {
       connect()
     }, 500) // Small delay for clean reconnection
@@ -128,35 +248,49 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
   const setupSocketListeners = () => {
     if (!socket.value) return
 
-    socket.value.on('connect', () => {
+    socket.value.on(SocketEventEnum.CONNECT, () => {
       isConnected.value = true
       isConnecting.value = false
       error.value = null
       console.log('Socket connected:', socket.value?.id)
+
+      // Rooms don't survive a new connection, join them again
+      joinedConversations.value.forEach(conversationId => {
+        socket.value?.emit(SocketEventEnum.JOIN_CONVERSATION, { conversationId })
+      })
+
       events?.onConnect?.()
+      if (hasConnectedBefore) {
+        console.log('🔁 Reconnected, rejoined conversations:', Array.from(joinedConversations.value))
+        events?.onReconnect?.(Array.from(joinedConversations.value))
+      }
+      hasConnectedBefore = true
+
+      // Send everything queued while offline
+      flushQueue()
     })
 
-    socket.value.on('disconnect', (reason) => {
+    socket.value.on(SocketEventEnum.DISCONNECT, (reason) => {
       isConnected.value = false
       console.log('Socket disconnected:', reason)
       events?.onDisconnect?.()
     })
 
-    socket.value.on('connect_error', (err) => {
+    socket.value.on(SocketEventEnum.CONNECT_ERROR, (err) => {
       isConnecting.value = false
-      error.value = err
-      console.error('Socket connection error:', err)
-      events?.onError?.(err)
+      error.value = createSocketError(err)
+      console.error('Socket connection error:', error.value)
+      events?.onError?.(error.value)
     })
 
-    socket.value.on('error', (err) => {
-      error.value = err
-      console.error('Socket error:', err)
-      events?.onError?.(err)
+    socket.value.on(SocketEventEnum.ERROR, (payload) => {
+      error.value = createSocketError(payload)
+      console.error('Socket error:', error.value)
+      events?.onError?.(error.value)
     })
 
     // Chat API events (following the documentation)
-    socket.value.on('new_message', (rawMessage: any) => {
+    socket.value.on(SocketEventEnum.NEW_MESSAGE, (rawMessage) => {
       console.log('📩 Received new_message event (raw):', rawMessage)
 
       // Normalize message using utility
@@ -166,21 +300,46 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
       events?.onNewMessage?.(normalizedMessage)
     })
 
-    socket.value.on('user_typing', (data: { userId: string; conversationId: string; isTyping: boolean }) => {
+    socket.value.on(SocketEventEnum.USER_TYPING, (data) => {
       console.log('⌨️ Received user_typing event:', data)
       events?.onUserTyping?.(data)
     })
 
-    socket.value.on('message_read', (data: { messageId: string; readBy: string[] }) => {
+    socket.value.on(SocketEventEnum.MESSAGE_READ, (data) => {
       console.log('✅ Received message_read event:', data)
       events?.onMessageRead?.(data)
     })
 
-    socket.value.on('conversation_updated', (rawData: any) => {
+    socket.value.on(SocketEventEnum.MESSAGE_LISTENED, (data) => {
+      console.log('🎧 Received message_listened event:', data)
+      events?.onMessageListened?.(data)
+    })
+
+    socket.value.on(SocketEventEnum.MESSAGE_UPDATED, (rawMessage) => {
+      console.log('✏️ Received message_updated event (raw):', rawMessage)
+      events?.onMessageUpdated?.(normalizeSocketMessage(rawMessage, events?.currentUserId))
+    })
+
+    socket.value.on(SocketEventEnum.MESSAGE_DELETED, (data) => {
+      console.log('🗑️ Received message_deleted event:', data)
+      events?.onMessageDeleted?.(data)
+    })
+
+    socket.value.on(SocketEventEnum.REACTION_ADDED, (data) => {
+      console.log('😀 Received reaction_added event:', data)
+      events?.onReactionAdded?.(data)
+    })
+
+    socket.value.on(SocketEventEnum.REACTION_REMOVED, (data) => {
+      console.log('😶 Received reaction_removed event:', data)
+      events?.onReactionRemoved?.(data)
+    })
+
+    socket.value.on(SocketEventEnum.CONVERSATION_UPDATED, (rawData) => {
       console.log('🔄 Received conversation_updated event (raw):', rawData)
 
       // Normalize conversation and message if present
-      const normalizedData = {
+      const normalizedData: IConversationUpdatedEvent = {
         conversationId: rawData.conversationId,
         lastMessage: rawData.lastMessage
           ? normalizeSocketMessage(rawData.lastMessage, events?.currentUserId)
@@ -191,106 +350,243 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
       events?.onConversationUpdated?.(normalizedData)
     })
 
-    socket.value.on('user:online', (userId: string) => {
+    socket.value.on(SocketEventEnum.USER_ONLINE, (userId) => {
       console.log('🟢 Received user:online event:', userId)
       events?.onUserOnline?.(userId)
     })
 
-    socket.value.on('user:offline', (userId: string) => {
+    socket.value.on(SocketEventEnum.USER_OFFLINE, (userId) => {
       console.log('⚪ Received user:offline event:', userId)
       events?.onUserOffline?.(userId)
     })
 
     // Also listen for alternative event names (in case backend uses different format)
-    socket.value.on('user_online', (userId: string) => {
+    socket.value.on(SocketEventEnum.USER_ONLINE_ALT, (userId) => {
       console.log('🟢 Received user_online event:', userId)
       events?.onUserOnline?.(userId)
     })
 
-    socket.value.on('user_offline', (userId: string) => {
+    socket.value.on(SocketEventEnum.USER_OFFLINE_ALT, (userId) => {
       console.log('⚪ Received user_offline event:', userId)
       events?.onUserOffline?.(userId)
     })
 
-    socket.value.on('online', (userId: string) => {
+    socket.value.on(SocketEventEnum.ONLINE, (userId) => {
       console.log('🟢 Received online event:', userId)
       events?.onUserOnline?.(userId)
     })
 
-    socket.value.on('offline', (userId: string) => {
+    socket.value.on(SocketEventEnum.OFFLINE, (userId) => {
       console.log('⚪ Received offline event:', userId)
       events?.onUserOffline?.(userId)
     })
 
     // Listen for initial online users list
-    socket.value.on('online_users', (userIds: string[]) => {
+    socket.value.on(SocketEventEnum.ONLINE_USERS, (userIds) => {
       console.log('👥 Received online_users list:', userIds)
       events?.onOnlineUsers?.(userIds)
     })
 
-    socket.value.on('users_online', (userIds: string[]) => {
+    socket.value.on(SocketEventEnum.USERS_ONLINE, (userIds) => {
       console.log('👥 Received users_online list:', userIds)
       events?.onOnlineUsers?.(userIds)
     })
 
     // Pin message events
-    socket.value.on('message_pinned', (data: IMessagePinnedEvent) => {
+    socket.value.on(SocketEventEnum.MESSAGE_PINNED, (data) => {
       console.log('📌 Received message_pinned event:', data)
       events?.onMessagePinned?.(data)
     })
 
-    socket.value.on('message_unpinned', (data: IMessageUnpinnedEvent) => {
+    socket.value.on(SocketEventEnum.MESSAGE_UNPINNED, (data) => {
       console.log('📌 Received message_unpinned event:', data)
       events?.onMessageUnpinned?.(data)
     })
 
-    socket.value.on('pinned_message_reordered', (data: IPinnedMessageReorderedEvent) => {
+    socket.value.on(SocketEventEnum.PINNED_MESSAGE_REORDERED, (data) => {
       console.log('📌 Received pinned_message_reordered event:', data)
       events?.onPinnedMessageReordered?.(data)
     })
 
-    socket.value.on('pinned_messages_response', (data: IConversationPinnedMessages) => {
+    socket.value.on(SocketEventEnum.PINNED_MESSAGES_RESPONSE, (data) => {
       console.log('📌 Received pinned_messages_response:', data)
       events?.onPinnedMessagesResponse?.(data)
     })
 
     // Friendship events
-    socket.value.on('friend_request_received', (data: IFriendshipNotification) => {
+    socket.value.on(SocketEventEnum.FRIEND_REQUEST_RECEIVED, (data) => {
       console.log('🤝 Received friend_request_received event:', data)
       events?.onFriendRequestReceived?.(data)
     })
 
-    socket.value.on('friend_request_accepted', (data: IFriendshipNotification) => {
+    socket.value.on(SocketEventEnum.FRIEND_REQUEST_ACCEPTED, (data) => {
       console.log('✅ Received friend_request_accepted event:', data)
       events?.onFriendRequestAccepted?.(data)
     })
 
-    socket.value.on('friend_request_declined', (data: IFriendshipNotification) => {
+    socket.value.on(SocketEventEnum.FRIEND_REQUEST_DECLINED, (data) => {
       console.log('❌ Received friend_request_declined event:', data)
       events?.onFriendRequestDeclined?.(data)
     })
   }
 
-  // Send message via socket (following Chat API docs)
-  const sendMessage = (conversationId: string, message: { content: string; type?: string; replyTo?: string }) => {
-    if (!socket.value?.connected) {
-      console.error('Socket not connected')
+  // Update a queued message and notify listeners
+  const updateOutboundMessage = (clientId: string, changes: Partial<IOutboundMessage>) => {
+    const entries = queue.value.entries
+    const entry = entries.value.find(m => m.clientId === clientId)
+    if (!entry) return
+
+    Object.assign(entry, changes)
+
+    // Acknowledged messages leave the queue
+    if (entry.status === MessageStatusEnum.SENT) {
+      entries.value = entries.value.filter(m => m.clientId !== clientId)
+    }
+
+    saveOutboundQueue(queue.value)
+    events?.onMessageStatusChange?.({ ...entry })
+  }
+
+  // Emit one queued message and wait for the server acknowledgement
+  const deliverOutboundMessage = async (entry: IOutboundMessage): Promise<boolean> => {
+    if (!socket.value?.connected) return false
+
+    console.log('📤 Emitting send_message:', { conversationId: entry.conversationId, message: entry.message })
+    try {
+      const ack = await socket.value
+        .timeout(ackTimeout)
+        .emitWithAck(SocketEventEnum.SEND_MESSAGE, {
+          conversationId: entry.conversationId,
+          message: entry.message
+        })
+
+      if (ack?.success === false) {
+        // Rejected by the server, retrying would not help
+        updateOutboundMessage(entry.clientId, {
+          status: MessageStatusEnum.FAILED,
+          attempts: entry.attempts + 1,
+          error: ack.error || 'Message rejected by server'
+        })
+        return true
+      }
+
+      updateOutboundMessage(entry.clientId, {
+        status: MessageStatusEnum.SENT,
+        attempts: entry.attempts + 1,
+        messageId: ack?.message?.id || ack?.message?._id,
+        error: undefined
+      })
+      return true
+    } catch (err) {
+      // Connection dropped while waiting, the message stays pending for the next connect
+      if (!socket.value?.connected) return false
+
+      const attempts = entry.attempts + 1
+      console.warn(`⚠️ No ack for ${entry.clientId} (attempt ${attempts}/${maxRetries})`)
+
+      if (attempts >= maxRetries) {
+        updateOutboundMessage(entry.clientId, {
+          status: MessageStatusEnum.FAILED,
+          attempts,
+          error: (err as Error).message || 'Message delivery timed out'
+        })
+        return true
+      }
+
+      updateOutboundMessage(entry.clientId, { attempts })
+      await new Promise(resolve => setTimeout(resolve, retryDelay * 2 ** (attempts - 1)))
       return false
     }
+  }
+
+  // Send pending messages one by one, oldest first
+  const flushQueue = async () => {
+    const current = queue.value
+    if (current.flushing) return
+    current.flushing = true
+
+    try {
+      // Stop when the user changed (sign-out), the next user's queue is flushed on its connect
+      while (socket.value?.connected && queue.value === current) {
+        const next = current.entries.value.find(m => m.status === MessageStatusEnum.PENDING)
+        if (!next) break
+
+        await deliverOutboundMessage(next)
+      }
+    } finally {
+      current.flushing = false
+    }
+  }
 
-    console.log('📤 Emitting send_message:', { conversationId, message })
-    socket.value.emit('send_message', {
+  // Send message via socket (following Chat API docs)
+  // Messages are queued and delivered in order once the socket is connected
+  const sendMessage = (conversationId: string, message: ISocketSendMessage): IOutboundMessage => {
+    const clientId = message.clientId || generateClientId()
+    const entry: IOutboundMessage = {
+      clientId,
       conversationId,
-      message
+      message: { ...message, clientId },
+      status: MessageStatusEnum.PENDING,
+      attempts: 0,
+      createdAt: Date.now()
+    }
+
+    queue.value.entries.value.push(entry)
+    saveOutboundQueue(queue.value)
+    events?.onMessageStatusChange?.({ ...entry })
+
+    if (!socket.value?.connected) {
+      console.warn('Socket not connected, message queued:', clientId)
+    }
+
+    flushQueue()
+    return entry
+  }
+
+  // Queue a failed message again
+  const retryMessage = (clientId: string) => {
+    const entry = outboundQueue.value.find(m => m.clientId === clientId)
+    if (!entry || entry.status !== MessageStatusEnum.FAILED) return false
+
+    updateOutboundMessage(clientId, {
+      status: MessageStatusEnum.PENDING,
+      attempts: 0,
+      error: undefined
     })
+    flushQueue()
+    return true
+  }
+
+  // Drop a queued message without sending it
+  const discardMessage = (clientId: string) => {
+    const entries = queue.value.entries
+    const entry = entries.value.find(m => m.clientId === clientId)
+    if (!entry || entry.status !== MessageStatusEnum.FAILED) return false
+
+    entries.value = entries.value.filter(m => m.clientId !== clientId)
+    saveOutboundQueue(queue.value)
     return true
   }
 
+  // Forget the unsent messages of the current user (sign-out)
+  // Emptied in place, other useSocket instances share it and stop flushing it
+  const clearOutboundQueue = () => {
+    const current = queue.value
+    current.entries.value = []
+    saveOutboundQueue(current)
+    queue.value = getUserQueue('')
+  }
+
+  // Get queued (pending or failed) messages for a conversation
+  const getQueuedMessages = (conversationId: string): IOutboundMessage[] => {
+    return outboundQueue.value.filter(m => m.conversationId === conversationId)
+  }
+
   // Send typing indicator (following Chat API docs)
   const sendTyping = (conversationId: string, isTyping: boolean) => {
     if (!socket.value?.connected) return
 
-    const event = isTyping ? 'typing_start' : 'typing_stop'
+    const event = isTyping ? SocketEventEnum.TYPING_START : SocketEventEnum.TYPING_STOP
     console.log(`⌨️ Emitting ${event}:`, { conversationId })
     socket.value.emit(event, { conversationId })
   }
@@ -300,7 +596,18 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
     if (!socket.value?.connected) return
 
     console.log('✅ Emitting mark_as_read:', { conversationId, messageId })
-    socket.value.emit('mark_as_read', {
+    socket.value.emit(SocketEventEnum.MARK_AS_READ, {
+      conversationId,
+      messageId
+    })
+  }
+
+  // Mark a voice message as listened (played), read status is untouched
+  const markAsListened = (conversationId: string, messageId: string) => {
+    if (!socket.value?.connected) return
+
+    console.log('🎧 Emitting mark_as_listened:', { conversationId, messageId })
+    socket.value.emit(SocketEventEnum.MARK_AS_LISTENED, {
       conversationId,
       messageId
     })
@@ -312,20 +619,23 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
   }
 
   // Join conversation (following Chat API docs)
+  // The conversation is remembered and joined on connect if the socket is offline
   const joinConversation = (conversationId: string) => {
+    joinedConversations.value.add(conversationId)
     if (!socket.value?.connected) return false
 
     console.log('🚪 Emitting join_conversation:', { conversationId })
-    socket.value.emit('join_conversation', { conversationId })
+    socket.value.emit(SocketEventEnum.JOIN_CONVERSATION, { conversationId })
     return true
   }
 
   // Leave conversation (following Chat API docs)
   const leaveConversation = (conversationId: string) => {
+    joinedConversations.value.delete(conversationId)
     if (!socket.value?.connected) return
 
     console.log('👋 Emitting leave_conversation:', { conversationId })
-    socket.value.emit('leave_conversation', { conversationId })
+    socket.value.emit(SocketEventEnum.LEAVE_CONVERSATION, { conversationId })
   }
 
   // Pin message via socket
@@ -336,7 +646,7 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
     }
 
     console.log('📌 Emitting pin_message:', { messageId })
-    socket.value.emit('pin_message', { messageId })
+    socket.value.emit(SocketEventEnum.PIN_MESSAGE, { messageId })
     return true
   }
 
@@ -348,7 +658,7 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
     }
 
     console.log('📌 Emitting unpin_message:', { messageId })
-    socket.value.emit('unpin_message', { messageId })
+    socket.value.emit(SocketEventEnum.UNPIN_MESSAGE, { messageId })
     return true
   }
 
@@ -360,7 +670,7 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
     }
 
     console.log('📌 Emitting reorder_pinned_message:', { messageId, newOrder })
-    socket.value.emit('reorder_pinned_message', { messageId, newOrder })
+    socket.value.emit(SocketEventEnum.REORDER_PINNED_MESSAGE, { messageId, newOrder })
     return true
   }
 
@@ -372,41 +682,54 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
     }
 
     console.log('📌 Emitting get_pinned_messages:', { conversationId })
-    socket.value.emit('get_pinned_messages', { conversationId })
+    socket.value.emit(SocketEventEnum.GET_PINNED_MESSAGES, { conversationId })
     return true
   }
 
-  // Emit custom event
-  const emit = (event: string, data?: any) => {
+  // Emit a typed client -> server event
+  const emit = <E extends ClientToServerEventName>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ) => {
     if (!socket.value?.connected) {
       console.error('Socket not connected')
       return false
     }
 
-    socket.value.emit(event, data)
+    socket.value.emit(event, ...args)
     return true
   }
 
-  // Listen to custom event
-  const on = (event: string, callback: (...args: any[]) => void) => {
+  // Listen to a typed server -> client event
+  const on = <E extends ServerToClientEventName>(event: E, callback: ServerToClientEvents[E]) => {
     if (!socket.value) return
 
-    socket.value.on(event, callback)
+    const target: IEventListenerTarget<E> = socket.value
+    target.on(event, callback)
   }
 
-  // Remove custom event listener
-  const off = (event: string, callback?: (...args: any[]) => void) => {
+  // Remove a server -> client event listener
+  const off = <E extends ServerToClientEventName>(event: E, callback?: ServerToClientEvents[E]) => {
     if (!socket.value) return
 
     if (callback) {
-      socket.value.off(event, callback)
+      const target: IEventListenerTarget<E> = socket.value
+      target.off(event, callback)
     } else {
       socket.value.off(event)
     }
   }
 
+  // Reconnect with tokens refreshed by useApi so the socket never outlives its token
+  const stopTokenRefreshListener = onTokenRefreshed(chatConfig.tokenProvider, (newToken) => {
+    if (socket.value) {
+      reconnectWithNewToken(newToken)
+    }
+  })
+
   // Auto cleanup on unmount
   onUnmounted(() => {
+    stopTokenRefreshListener()
     disconnect()
   })
 
@@ -415,12 +738,19 @@ export function useSocket(config: SocketConfig, events?: SocketEvents) {
     isConnected,
     isConnecting,
     error,
+    outboundQueue,
+    joinedConversations,
     connect,
     disconnect,
     reconnectWithNewToken,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    clearOutboundQueue,
+    getQueuedMessages,
     sendTyping,
     markAsRead,
+    markAsListened,
     markAsDelivered,
     joinConversation,
     leaveConversation,
@@ -0,0 +1,291 @@
+import { ref, computed } from 'vue'
+import { useApi } from './useApi'
+import { useMessages, type IChatMessage } from './useMessages'
+import { parseReplyToId } from '../utils/messageParser'
+import { isChatError } from '../utils/errors'
+import { ChatErrorKindEnum } from '../enums/error.enum'
+
+export interface IActiveThread {
+  conversationId: string
+  rootId: string
+}
+
+export interface IThreadSummary {
+  rootId: string
+  replyCount: number
+  unreadCount: number // Replies from others not read since the thread was last opened
+  lastReplyAt?: Date
+}
+
+// Guards against replyTo cycles in corrupted data
+const MAX_THREAD_DEPTH = 100
+
+// Shared thread state
+const activeThread = ref<IActiveThread | null>(null)
+const isLoadingThread = ref(false)
+// Parents fetched because they were not in a loaded page, by message ID
+const fetchedMessages = ref<Map<string, IChatMessage>>(new Map())
+// Parents the server doesn't know (deleted or not visible), never fetched again
+const missingMessages = new Set<string>()
+// When each thread was last opened, by root message ID
+const threadReadAt = ref<Map<string, number>>(new Map())
+// Roots of replies whose whole chain is known, by message ID (a replyTo never changes)
+const resolvedRoots = new Map<string, string>()
+// Replies fetched when their thread was opened, by conversation ID then message ID
+const fetchedReplies = ref<Map<string, Map<string, IChatMessage>>>(new Map())
+
+/**
+ * Thread view on top of replyTo chains
+ *
+ * Every reply belongs to the thread of the top-most message of its replyTo chain.
+ * Parents outside the loaded pages are fetched lazily when a thread is opened,
+ * together with every reply of the thread, so its count and panel are complete.
+ */
+export function useThreads() {
+  const api = useApi()
+  const { getMessages, updateMessage, getCurrentUserId } = useMessages()
+
+  // ID of the message a message replies to
+  const getParentId = (message: IChatMessage): string | null => {
+    if (message.replyToMessage?.id) return message.replyToMessage.id
+    if (!message.replyTo) return null
+    if (typeof message.replyTo === 'string') return parseReplyToId(message.replyTo)
+    return message.replyTo._id || message.replyTo.id || null
+  }
+
+  // Message from the loaded pages, fetched as a parent or as a thread reply
+  const lookupMessage = (conversationId: string, messageId: string): IChatMessage | undefined => {
+    return getMessages(conversationId).find(m => m.id === messageId) ||
+      fetchedMessages.value.get(messageId) ||
+      fetchedReplies.value.get(conversationId)?.get(messageId)
+  }
+
+  // Loaded messages, then the fetched replies that aren't loaded (oldest first)
+  const getThreadMessages = (conversationId: string): IChatMessage[] => {
+    const loaded = getMessages(conversationId)
+    const fetched = fetchedReplies.value.get(conversationId)
+    if (!fetched?.size) return loaded
+
+    const loadedIds = new Set(loaded.map(m => m.id))
+    const extra = Array.from(fetched.values()).filter(m => !loadedIds.has(m.id))
+    if (extra.length === 0) return loaded
+
+    return [...loaded, ...extra].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  }
+
+  // Top-most known message of a replyTo chain (may be an ID that isn't loaded yet)
+  const getRootId = (
+    conversationId: string,
+    message: IChatMessage,
+    cache: Map<string, string> = new Map()
+  ): string => {
+    const chain: string[] = []
+    let current: IChatMessage | undefined = message
+    let rootId = message.id
+    let resolved = false
+
+    while (current && chain.length < MAX_THREAD_DEPTH) {
+      const known = resolvedRoots.get(current.id)
+      if (known) {
+        rootId = known
+        resolved = true
+        break
+      }
+
+      const cached = cache.get(current.id)
+      if (cached) {
+        rootId = cached
+        break
+      }
+
+      chain.push(current.id)
+      rootId = current.id
+
+      const parentId = getParentId(current)
+      if (!parentId) {
+        resolved = true
+        break
+      }
+      if (chain.includes(parentId)) break
+
+      current = lookupMessage(conversationId, parentId)
+      if (!current) rootId = parentId
+    }
+
+    // Chains ending at a message that isn't loaded may get a higher root once it is
+    chain.forEach(id => (resolved ? resolvedRoots : cache).set(id, rootId))
+    return rootId
+  }
+
+  // Reply count and unread count of every thread in a conversation
+  const getThreadSummaries = (conversationId: string): Map<string, IThreadSummary> => {
+    const summaries = new Map<string, IThreadSummary>()
+    const roots = new Map<string, string>()
+    const currentUserId = getCurrentUserId()
+
+    getThreadMessages(conversationId).forEach(message => {
+      if (!getParentId(message)) return
+
+      const rootId = getRootId(conversationId, message, roots)
+      const summary = summaries.get(rootId) || { rootId, replyCount: 0, unreadCount: 0 }
+      const createdAt = new Date(message.createdAt)
+
+      summary.replyCount++
+      if (!summary.lastReplyAt || summary.lastReplyAt < createdAt) {
+        summary.lastReplyAt = createdAt
+      }
+      if (
+        currentUserId &&
+        activeThread.value?.rootId !== rootId &&
+        message.sender.id !== currentUserId &&
+        !message.readBy.includes(currentUserId) &&
+        createdAt.getTime() > (threadReadAt.value.get(rootId) || 0)
+      ) {
+        summary.unreadCount++
+      }
+
+      summaries.set(rootId, summary)
+    })
+
+    return summaries
+  }
+
+  // Every reply of a thread, oldest first
+  const getThreadReplies = (conversationId: string, rootId: string): IChatMessage[] => {
+    const roots = new Map<string, string>()
+    return getThreadMessages(conversationId).filter(message =>
+      message.id !== rootId &&
+      !!getParentId(message) &&
+      getRootId(conversationId, message, roots) === rootId
+    )
+  }
+
+  // Fetch a message that isn't in the loaded pages and link the replies waiting for it
+  const ensureMessage = async (conversationId: string, messageId: string): Promise<IChatMessage | null> => {
+    const known = lookupMessage(conversationId, messageId)
+    if (known) return known
+    if (missingMessages.has(messageId)) return null
+
+    try {
+      const data = await api.get(`/api/chat/messages/${messageId}`)
+      const message = data.message as IChatMessage | undefined
+      if (!message) {
+        missingMessages.add(messageId)
+        return null
+      }
+
+      fetchedMessages.value.set(messageId, message)
+      getMessages(conversationId)
+        .filter(m => !m.replyToMessage && getParentId(m) === messageId)
+        .forEach(m => updateMessage({ ...m, replyToMessage: message }))
+
+      console.log('🧵 Fetched thread parent:', messageId)
+      return message
+    } catch (error) {
+      if (isChatError(error) && error.kind === ChatErrorKindEnum.NOT_FOUND) {
+        missingMessages.add(messageId)
+      }
+      console.error('Fetch thread parent error:', error)
+      return null
+    }
+  }
+
+  // Fetch every reply of a thread, the loaded pages may only hold some of them
+  const loadThreadReplies = async (conversationId: string, rootId: string): Promise<void> => {
+    try {
+      const data = await api.get(`/api/chat/messages/${rootId}/thread`)
+      const replies = (data.messages || []) as IChatMessage[]
+
+      const fetched = fetchedReplies.value.get(conversationId) || new Map<string, IChatMessage>()
+      replies.forEach(reply => fetched.set(reply.id, reply))
+      fetchedReplies.value.set(conversationId, fetched)
+
+      console.log(`🧵 Fetched ${replies.length} replies of thread ${rootId}`)
+    } catch (error) {
+      // The panel still shows the loaded replies
+      console.error('Fetch thread replies error:', error)
+    }
+  }
+
+  // Fetch every missing ancestor of a message, returns the root
+  const loadAncestors = async (conversationId: string, message: IChatMessage): Promise<IChatMessage> => {
+    let current = message
+    for (let depth = 0; depth < MAX_THREAD_DEPTH; depth++) {
+      const parentId = getParentId(current)
+      if (!parentId) break
+
+      const parent = await ensureMessage(conversationId, parentId)
+      if (!parent) break
+      current = parent
+    }
+    return current
+  }
+
+  // Open the thread a message belongs to
+  const openThread = async (conversationId: string, messageId: string): Promise<IActiveThread | null> => {
+    isLoadingThread.value = true
+    try {
+      const message = await ensureMessage(conversationId, messageId)
+      if (!message) return null
+
+      const root = await loadAncestors(conversationId, message)
+      activeThread.value = { conversationId, rootId: root.id }
+      markThreadRead(root.id)
+      await loadThreadReplies(conversationId, root.id)
+      return activeThread.value
+    } finally {
+      isLoadingThread.value = false
+    }
+  }
+
+  const closeThread = () => {
+    if (activeThread.value) {
+      markThreadRead(activeThread.value.rootId)
+    }
+    activeThread.value = null
+  }
+
+  // Forget every thread of the signed-in user
+  const resetThreads = () => {
+    activeThread.value = null
+    fetchedMessages.value.clear()
+    fetchedReplies.value.clear()
+    missingMessages.clear()
+    threadReadAt.value.clear()
+    resolvedRoots.clear()
+  }
+
+  const markThreadRead = (rootId: string) => {
+    threadReadAt.value.set(rootId, Date.now())
+  }
+
+  const activeRootMessage = computed(() => {
+    if (!activeThread.value) return null
+    return lookupMessage(activeThread.value.conversationId, activeThread.value.rootId) || null
+  })
+
+  const activeReplies = computed(() => {
+    if (!activeThread.value) return []
+    return getThreadReplies(activeThread.value.conversationId, activeThread.value.rootId)
+  })
+
+  return {
+    // State
+    activeThread,
+    activeRootMessage,
+    activeReplies,
+    isLoadingThread,
+
+    // Methods
+    openThread,
+    closeThread,
+    markThreadRead,
+    resetThreads,
+    getThreadSummaries,
+    getThreadReplies,
+    loadThreadReplies,
+    getRootId,
+    getParentId,
+    ensureMessage
+  }
+}
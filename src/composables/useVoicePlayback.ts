@@ -0,0 +1,88 @@
+import { ref } from 'vue'
+
+export const VOICE_PLAYBACK_RATES = [1, 1.5, 2] as const
+export type VoicePlaybackRate = typeof VOICE_PLAYBACK_RATES[number]
+
+const POSITIONS_KEY = 'chat_voice_positions'
+const MAX_POSITIONS = 100 // Oldest positions are dropped beyond this
+
+// Shared by every voice player: one message plays at a time, at the same speed
+const activeVoiceId = ref('')
+const playbackRate = ref<VoicePlaybackRate>(1)
+
+// Where playback stopped, per message ID (seconds), kept across reloads
+let positions: Map<string, number> | null = null
+
+function loadPositions(): Map<string, number> {
+  if (positions) return positions
+  try {
+    const stored = JSON.parse(localStorage.getItem(POSITIONS_KEY) || '[]') as [string, number][]
+    positions = new Map(Array.isArray(stored) ? stored : [])
+  } catch {
+    positions = new Map()
+  }
+  return positions
+}
+
+function persistPositions() {
+  if (!positions) return
+  try {
+    localStorage.setItem(POSITIONS_KEY, JSON.stringify(Array.from(positions.entries())))
+  } catch {
+    // Storage full or unavailable, positions are kept for this session only
+  }
+}
+
+/**
+ * Playback state shared by the voice message players
+ *
+ * `play(messageId)` makes a message the active one, the player rendering it
+ * starts and any other player pauses. ChatList uses it to auto-play the next
+ * consecutive voice message.
+ */
+export function useVoicePlayback() {
+  const play = (messageId: string) => {
+    activeVoiceId.value = messageId
+  }
+
+  const stop = (messageId: string) => {
+    if (activeVoiceId.value === messageId) activeVoiceId.value = ''
+  }
+
+  const cycleRate = () => {
+    const index = VOICE_PLAYBACK_RATES.indexOf(playbackRate.value)
+    playbackRate.value = VOICE_PLAYBACK_RATES[(index + 1) % VOICE_PLAYBACK_RATES.length] ?? 1
+  }
+
+  const getPosition = (messageId: string): number => {
+    return loadPositions().get(messageId) || 0
+  }
+
+  // 0 forgets the message (played to the end)
+  const savePosition = (messageId: string, seconds: number) => {
+    const saved = loadPositions()
+    saved.delete(messageId)
+    if (seconds > 0) {
+      saved.set(messageId, Math.round(seconds * 10) / 10)
+      while (saved.size > MAX_POSITIONS) {
+        const oldest = saved.keys().next().value
+        if (oldest === undefined) break
+        saved.delete(oldest)
+      }
+    }
+    persistPositions()
+  }
+
+  return {
+    // State
+    activeVoiceId,
+    playbackRate,
+
+    // Methods
+    play,
+    stop,
+    cycleRate,
+    getPosition,
+    savePosition
+  }
+}
@@ -0,0 +1,312 @@
+import { ref, computed, shallowRef, onBeforeUnmount, getCurrentInstance } from 'vue'
+import { useChatConfig } from './useChatConfig'
+import { useNotifier } from './useNotifier'
+import { pickRecordingMimeType, computeWaveformPeaks, downsamplePeaks } from '../utils/audio'
+
+export type VoiceRecorderState = 'idle' | 'starting' | 'recording' | 'paused' // starting: waiting for microphone access
+
+// Finished recording, ready to upload
+export interface IVoiceRecording {
+  id: string
+  blob: Blob
+  url: string // Object URL for local playback, revoked by discard()
+  duration: number // Seconds, pauses excluded
+  mimeType: string // Negotiated MIME type, e.g. 'audio/webm;codecs=opus'
+  waveform: number[] // Peaks between 0 and 1
+}
+
+export interface IVoiceRecorderOptions {
+  maxDuration?: number // Seconds, the recording stops by itself at this length
+}
+
+// Bars of the live level meter
+const LEVEL_HISTORY = 32
+
+/**
+ * Record voice messages
+ *
+ * The MIME type is negotiated with MediaRecorder.isTypeSupported from
+ * voice.mimeTypes. While recording, `level` (0-1) and `levels` (recent
+ * levels, oldest first) drive a live meter. Stopping resolves with the
+ * recording and its waveform peaks (decoded from the audio, or the
+ * levels sampled while recording when decoding isn't possible).
+ *
+ * Each caller gets its own recorder, so the main input and a thread
+ * input don't share a recording.
+ */
+export function useVoiceRecorder(options: IVoiceRecorderOptions = {}) {
+  const chatConfig = useChatConfig()
+  const notify = useNotifier()
+
+  const state = ref<VoiceRecorderState>('idle')
+  const duration = ref(0) // Seconds recorded so far
+  const level = ref(0)
+  const levels = ref<number[]>([])
+  const mimeType = ref('')
+
+  const isStarting = computed(() => state.value === 'starting')
+  const isRecording = computed(() => state.value === 'recording' || state.value === 'paused')
+  const isPaused = computed(() => state.value === 'paused')
+  const isSupported = typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia &&
+    typeof MediaRecorder !== 'undefined'
+
+  const recorder = shallowRef<MediaRecorder | null>(null)
+  let stream: MediaStream | null = null
+  let startGeneration = 0 // Bumped by every start() and by stop() while starting
+  let chunks: Blob[] = []
+  let samples: number[] = [] // Every level measured, fallback waveform
+  let audioContext: AudioContext | null = null
+  let analyser: AnalyserNode | null = null
+  let frame: number | null = null
+  let elapsed = 0 // ms recorded before the current segment
+  let segmentStart: number | null = null // Start of the running segment, null while paused or stopped
+  let clock: ReturnType<typeof setInterval> | null = null
+  let finish: ((recording: IVoiceRecording | null) => void) | null = null
+  let stopping: Promise<IVoiceRecording | null> | null = null
+  let discarded = false
+
+  const currentDuration = (): number => {
+    return elapsed + (segmentStart !== null ? Date.now() - segmentStart : 0)
+  }
+
+  // RMS of the microphone signal, scaled so normal speech fills most of the meter
+  const measureLevel = () => {
+    if (!analyser) return
+    const data = new Uint8Array(analyser.fftSize)
+    analyser.getByteTimeDomainData(data)
+
+    let sum = 0
+    data.forEach(value => {
+      const amplitude = (value - 128) / 128
+      sum += amplitude * amplitude
+    })
+    const rms = Math.min(1, Math.sqrt(sum / data.length) * 3)
+
+    level.value = rms
+    levels.value = [...levels.value.slice(1 - LEVEL_HISTORY), rms]
+    samples.push(rms)
+    frame = requestAnimationFrame(measureLevel)
+  }
+
+  const startMeter = (source: MediaStream) => {
+    if (typeof AudioContext === 'undefined') return
+    try {
+      audioContext = new AudioContext()
+      analyser = audioContext.createAnalyser()
+      analyser.fftSize = 1024
+      audioContext.createMediaStreamSource(source).connect(analyser)
+      frame = requestAnimationFrame(measureLevel)
+    } catch (err) {
+      // The recording works without the meter
+      console.warn('⚠️ Level meter unavailable:', err)
+    }
+  }
+
+  const stopMeter = () => {
+    if (frame !== null) cancelAnimationFrame(frame)
+    frame = null
+    level.value = 0
+  }
+
+  const startClock = () => {
+    segmentStart = Date.now()
+    clock = setInterval(() => {
+      duration.value = Math.floor(currentDuration() / 1000)
+      if (options.maxDuration && currentDuration() >= options.maxDuration * 1000) {
+        void stop()
+      }
+    }, 200)
+  }
+
+  const stopClock = () => {
+    if (clock) clearInterval(clock)
+    clock = null
+    elapsed = currentDuration()
+    segmentStart = null
+  }
+
+  // Release the microphone and the audio graph
+  const release = () => {
+    stopMeter()
+    stopClock()
+    stream?.getTracks().forEach(track => track.stop())
+    stream = null
+    analyser = null
+    void audioContext?.close()
+    audioContext = null
+    recorder.value = null
+  }
+
+  const start = async (): Promise<boolean> => {
+    if (state.value !== 'idle') return false
+    if (!isSupported) {
+      notify.error('voice.unsupported', 'Voice recording is not supported in this browser')
+      return false
+    }
+
+    // Taken before the permission prompt: a second start() or cancel() sees it
+    state.value = 'starting'
+    const generation = ++startGeneration
+    const isCurrentStart = () => generation === startGeneration && state.value === 'starting'
+    let acquired: MediaStream
+    try {
+      acquired = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch (err) {
+      // Stopped or superseded meanwhile, nothing to report
+      if (!isCurrentStart()) return false
+      state.value = 'idle'
+      console.error('Error accessing microphone:', err)
+      notify.error('voice.permissionDenied', 'Microphone access is needed to record voice messages', {
+        payload: { error: err }
+      })
+      return false
+    }
+
+    // Cancelled (or unmounted) during the permission prompt, or stopped and started again:
+    // the newer start() records, this microphone is released
+    if (!isCurrentStart()) {
+      acquired.getTracks().forEach(track => track.stop())
+      return false
+    }
+    stream = acquired
+
+    mimeType.value = pickRecordingMimeType(chatConfig.voice.mimeTypes)
+    let mediaRecorder: MediaRecorder
+    try {
+      mediaRecorder = new MediaRecorder(stream, {
+        ...(mimeType.value && { mimeType: mimeType.value }),
+        ...(chatConfig.voice.audioBitsPerSecond && { audioBitsPerSecond: chatConfig.voice.audioBitsPerSecond })
+      })
+    } catch (err) {
+      // NotSupportedError for the negotiated type or bitrate
+      release()
+      state.value = 'idle'
+      console.error('Error creating voice recorder:', err)
+      notify.error('voice.unsupported', 'Voice recording is not supported in this browser', {
+        payload: { error: err }
+      })
+      return false
+    }
+    chunks = []
+    samples = []
+    elapsed = 0
+    discarded = false
+    duration.value = 0
+    levels.value = new Array(LEVEL_HISTORY).fill(0)
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    mediaRecorder.onstop = async () => {
+      release()
+      const total = elapsed
+      state.value = 'idle'
+
+      const done = finish
+      finish = null
+      stopping = null
+      if (discarded || chunks.length === 0) {
+        done?.(null)
+        return
+      }
+
+      // The recorder knows the container it actually produced
+      const type = mediaRecorder.mimeType || mimeType.value || chunks[0]?.type || 'audio/webm'
+      const blob = new Blob(chunks, { type })
+      const bars = chatConfig.voice.waveformBars
+      const waveform = await computeWaveformPeaks(blob, bars) || downsamplePeaks(samples, bars)
+
+      const recording: IVoiceRecording = {
+        id: Date.now().toString(),
+        blob,
+        url: URL.createObjectURL(blob),
+        duration: Math.max(1, Math.round(total / 1000)),
+        mimeType: type,
+        waveform
+      }
+      console.log(`🎙️ Recorded ${recording.duration}s of ${type} (${blob.size} bytes)`)
+      done?.(recording)
+    }
+
+    recorder.value = mediaRecorder
+    mediaRecorder.start(1000)
+    state.value = 'recording'
+    startMeter(stream)
+    startClock()
+    return true
+  }
+
+  const pause = () => {
+    if (state.value !== 'recording' || !recorder.value) return
+    recorder.value.pause()
+    state.value = 'paused'
+    stopClock()
+    stopMeter()
+  }
+
+  const resume = () => {
+    if (state.value !== 'paused' || !recorder.value) return
+    recorder.value.resume()
+    state.value = 'recording'
+    startClock()
+    if (analyser) frame = requestAnimationFrame(measureLevel)
+  }
+
+  // Finish the recording, resolves with null if nothing was recorded
+  const stop = (): Promise<IVoiceRecording | null> => {
+    if (stopping) return stopping
+
+    const mediaRecorder = recorder.value
+    if (state.value === 'starting') {
+      // No audio yet, start() releases the microphone once granted
+      startGeneration++
+      state.value = 'idle'
+      return Promise.resolve(null)
+    }
+    if (state.value === 'idle' || !mediaRecorder) return Promise.resolve(null)
+
+    stopClock()
+    stopping = new Promise(resolve => {
+      finish = resolve
+      mediaRecorder.stop()
+    })
+    return stopping
+  }
+
+  // Stop without keeping the audio
+  const cancel = () => {
+    discarded = true
+    void stop()
+  }
+
+  // Free the object URL of a recording that is no longer shown
+  const discard = (recording: IVoiceRecording | null | undefined) => {
+    if (recording) URL.revokeObjectURL(recording.url)
+  }
+
+  if (getCurrentInstance()) {
+    onBeforeUnmount(cancel)
+  }
+
+  return {
+    // State
+    state,
+    isStarting,
+    isRecording,
+    isPaused,
+    isSupported,
+    duration,
+    level,
+    levels,
+    mimeType,
+
+    // Methods
+    start,
+    pause,
+    resume,
+    stop,
+    cancel,
+    discard
+  }
+}
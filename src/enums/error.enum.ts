@@ -0,0 +1,12 @@
+// Kind of failure carried by ChatError, so the UI can branch without matching messages
+export enum ChatErrorKindEnum {
+  NETWORK = 'network', // Request never reached the server
+  TIMEOUT = 'timeout',
+  AUTH = 'auth', // 401 / 403, or the socket rejected the token
+  VALIDATION = 'validation', // 400 / 409 / 422
+  RATE_LIMIT = 'rate_limit', // 429, see retryAfter
+  NOT_FOUND = 'not_found',
+  SERVER = 'server', // 5xx or unreadable response
+  CANCELLED = 'cancelled', // Aborted by the user
+  UNKNOWN = 'unknown',
+}
@@ -6,6 +6,11 @@ export enum MessageStatusEnum {
   FAILED = 'failed',
 }
 
+export enum MessageDeleteModeEnum {
+  FOR_ME = 'for_me', // Hidden for the current user only
+  FOR_EVERYONE = 'for_everyone', // Replaced by a tombstone for every participant
+}
+
 export enum MessageRole {
   USER = 'user',
   ASSISTANT = 'assistant',
@@ -7,55 +7,73 @@ export enum SocketStatusEnum {
   RECONNECTING = 'reconnecting',
 }
 
-// Socket event names
+// Socket event names (wire names used by the chat backend)
+// Payload types for each event live in interfaces/socket.interface.ts
 export enum SocketEventEnum {
-  // Connection events
+  // Connection events (reserved by Socket.IO)
   CONNECT = 'connect',
   DISCONNECT = 'disconnect',
   CONNECT_ERROR = 'connect_error',
+
+  // Manager events (emitted on socket.io, not on the socket itself)
   RECONNECT = 'reconnect',
   RECONNECT_ATTEMPT = 'reconnect_attempt',
   RECONNECT_ERROR = 'reconnect_error',
   RECONNECT_FAILED = 'reconnect_failed',
 
-  // Message events
-  MESSAGE_SEND = 'message:send',
-  MESSAGE_RECEIVE = 'message',
-  MESSAGE_DELIVERED = 'message:delivered',
-  MESSAGE_READ = 'message:read',
-  MESSAGE_DELETE = 'message:delete',
-  MESSAGE_UPDATE = 'message:update',
+  // Client -> server: messages
+  SEND_MESSAGE = 'send_message',
+  MARK_AS_READ = 'mark_as_read',
+  MARK_AS_LISTENED = 'mark_as_listened', // Voice message played, separate from read
+
+  // Client -> server: typing
+  TYPING_START = 'typing_start',
+  TYPING_STOP = 'typing_stop',
+
+  // Client -> server: conversation rooms
+  JOIN_CONVERSATION = 'join_conversation',
+  LEAVE_CONVERSATION = 'leave_conversation',
 
-  // Typing events
-  TYPING = 'typing',
-  TYPING_START = 'typing:start',
-  TYPING_STOP = 'typing:stop',
+  // Client -> server: pinned messages
+  PIN_MESSAGE = 'pin_message',
+  UNPIN_MESSAGE = 'unpin_message',
+  REORDER_PINNED_MESSAGE = 'reorder_pinned_message',
+  GET_PINNED_MESSAGES = 'get_pinned_messages',
 
-  // Room/Channel events
-  ROOM_JOIN = 'room:join',
-  ROOM_LEAVE = 'room:leave',
-  ROOM_CREATED = 'room:created',
-  ROOM_UPDATED = 'room:updated',
-  ROOM_DELETED = 'room:deleted',
+  // Client -> server: presence
+  GET_ONLINE_USERS = 'get_online_users',
 
-  // User events
+  // Server -> client: messages
+  NEW_MESSAGE = 'new_message',
+  MESSAGE_READ = 'message_read',
+  MESSAGE_LISTENED = 'message_listened',
+  MESSAGE_UPDATED = 'message_updated',
+  MESSAGE_DELETED = 'message_deleted',
+  REACTION_ADDED = 'reaction_added',
+  REACTION_REMOVED = 'reaction_removed',
+  CONVERSATION_UPDATED = 'conversation_updated',
+
+  // Server -> client: typing
+  USER_TYPING = 'user_typing',
+
+  // Server -> client: presence
   USER_ONLINE = 'user:online',
   USER_OFFLINE = 'user:offline',
-  USER_JOINED = 'user:joined',
-  USER_LEFT = 'user:left',
-
-  // File upload events
-  FILE_UPLOAD_START = 'file:upload:start',
-  FILE_UPLOAD_PROGRESS = 'file:upload:progress',
-  FILE_UPLOAD_COMPLETE = 'file:upload:complete',
-  FILE_UPLOAD_ERROR = 'file:upload:error',
+  ONLINE_USERS = 'online_users',
+  // Alternative presence names still emitted by some backend versions
+  USER_ONLINE_ALT = 'user_online',
+  USER_OFFLINE_ALT = 'user_offline',
+  ONLINE = 'online',
+  OFFLINE = 'offline',
+  USERS_ONLINE = 'users_online',
 
-  // Voice message events
-  VOICE_UPLOAD_START = 'voice:upload:start',
-  VOICE_UPLOAD_COMPLETE = 'voice:upload:complete',
-  VOICE_UPLOAD_ERROR = 'voice:upload:error',
+  // Server -> client: pinned messages
+  MESSAGE_PINNED = 'message_pinned',
+  MESSAGE_UNPINNED = 'message_unpinned',
+  PINNED_MESSAGE_REORDERED = 'pinned_message_reordered',
+  PINNED_MESSAGES_RESPONSE = 'pinned_messages_response',
 
-  // Friendship events
+  // Server -> client: friendship
   FRIEND_REQUEST_RECEIVED = 'friend_request_received',
   FRIEND_REQUEST_ACCEPTED = 'friend_request_accepted',
   FRIEND_REQUEST_DECLINED = 'friend_request_declined',
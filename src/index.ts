@@ -2,29 +2,203 @@ import type { App } from 'vue'
 import ChatInput from './components/ChatInput.vue'
 import ChatList from './components/ChatList.vue'
 import LoginModal from './components/LoginModal.vue'
+import EmojiPicker from './components/EmojiPicker.vue'
+import ThreadPanel from './components/ThreadPanel.vue'
+import VoiceMessagePlayer from './components/VoiceMessagePlayer.vue'
+import { provideChatConfig } from './composables/useChatConfig'
+import type { IChatKitOptions } from './interfaces/config.interface'
 
 // Export components
-export { ChatInput, ChatList, LoginModal }
+export { ChatInput, ChatList, LoginModal, EmojiPicker, ThreadPanel, VoiceMessagePlayer }
 
 // Export composables
 export { useSocket } from './composables/useSocket'
 export { useAuth } from './composables/useAuth'
+export {
+  useChatConfig,
+  createChatConfig,
+  localStorageTokenProvider,
+  CHAT_CONFIG_KEY
+} from './composables/useChatConfig'
+export { useNotifier } from './composables/useNotifier'
+export { useOfflineCache } from './composables/useOfflineCache'
+export { useThreads } from './composables/useThreads'
+export { useScrollToMessage } from './composables/useScrollToMessage'
+export { usePersistence, configurePersistence } from './composables/usePersistence'
+export { useFileUpload, toAttachment } from './composables/useFileUpload'
+export { useImageProcessor } from './composables/useImageProcessor'
+export { useVoiceRecorder } from './composables/useVoiceRecorder'
+export { useVoicePlayback, VOICE_PLAYBACK_RATES } from './composables/useVoicePlayback'
+export {
+  useMessageRenderers,
+  registerMessageRenderer,
+  unregisterMessageRenderer
+} from './composables/useMessageRenderers'
+
+// Export storage adapters
+export { createIndexedDBAdapter, createMemoryAdapter } from './utils/storageAdapters'
+
+// Export notifier adapters
+export { createElementPlusNotifier, createSilentNotifier } from './utils/notifiers'
+export type { ElementPlusNotifierOptions } from './utils/notifiers'
+
+// Export message renderer
+export { createMessageRenderer, isSafeUrl } from './utils/messageRenderer'
+export type {
+  IMessageRenderer,
+  IMessageRendererOptions,
+  IMessageRenderContext,
+  RawHtmlPolicy
+} from './interfaces/renderer.interface'
+
+// Export mention helpers
+export {
+  formatMentionToken,
+  parseMentions,
+  isMentioned,
+  mentionsToPlainText,
+  serializeMentions,
+  findMentionQuery,
+  getMentionCandidates
+} from './utils/mentions'
+
+// Export image processing helpers
+export { processImageBlob, processImageOnCanvas, canProcessImages, fitDimensions, METADATA_IMAGE_TYPES } from './utils/imageProcessing'
+export type {
+  IImageProcessingOptions,
+  IProcessedImage,
+  IImageProcessingResult,
+  ImageOutputFormat
+} from './interfaces/image.interface'
+
+// Export audio helpers
+export {
+  pickRecordingMimeType,
+  getAudioExtension,
+  downsamplePeaks,
+  computeWaveformPeaks,
+  DEFAULT_RECORDING_MIME_TYPES
+} from './utils/audio'
+
+// Export emoji sets
+export { QUICK_REACTIONS, EMOJI_CATEGORIES } from './utils/emojis'
+export type { IEmojiCategory } from './utils/emojis'
 
 // Export types
-export type { IMessage, IMessageShow, IAttachment } from './interfaces/message.interface'
+export type {
+  IMessage,
+  IMessageShow,
+  IAttachment,
+  IMessageRevision,
+  IMessageReaction,
+  IMention,
+  IReactionUser
+} from './interfaces/message.interface'
 export type { AuthUser } from './composables/useAuth'
+export type { IActiveThread, IThreadSummary } from './composables/useThreads'
+export type { IScrollTarget } from './composables/useScrollToMessage'
+export type {
+  UploadedFileInfo,
+  UploadProgress,
+  UploadStatus,
+  IUploadOptions,
+  IUploadFilesOptions,
+  IUploadResult,
+  IUploadSummary,
+  IUploadSession
+} from './composables/useFileUpload'
+export type { IThreadSendPayload } from './components/ThreadPanel.vue'
+export type { IVoiceMessage } from './interfaces/chatinput.interface'
+export type { IVoiceRecording, IVoiceRecorderOptions, VoiceRecorderState } from './composables/useVoiceRecorder'
+export type { VoicePlaybackRate } from './composables/useVoicePlayback'
+export type { SocketConfig, SocketEvents, ChatSocket } from './composables/useSocket'
+export type {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  ServerToClientEventName,
+  ClientToServerEventName,
+  ISocketMessagePayload,
+  ISocketSendMessage,
+  ISocketSendMessagePayload,
+  ISendMessageAck,
+  IOutboundMessage,
+  ISocketConversationPayload,
+  ISocketMarkAsReadPayload,
+  ISocketConversationUpdatedPayload,
+  IUserTypingEvent,
+  IMessageReadEvent,
+  IMessageListenedEvent,
+  IMessageDeletedEvent,
+  IMessageReactionEvent,
+  ISocketReactionPayload,
+  IConversationUpdatedEvent,
+  ISocketErrorPayload
+} from './interfaces/socket.interface'
+export type {
+  IChatKitOptions,
+  IChatKitConfig,
+  ITokenProvider,
+  IUploadEndpoints,
+  IUploadConfig,
+  IChatFeatureFlags
+} from './interfaces/config.interface'
+export type {
+  INotification,
+  INotifier,
+  NotificationLevel
+} from './interfaces/notifier.interface'
+export type {
+  IApiRequest,
+  IApiResponse,
+  IApiErrorContext,
+  IApiInterceptors,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ErrorInterceptor
+} from './interfaces/interceptor.interface'
+export type {
+  IStorageAdapter,
+  IStoredRecord,
+  IStoredEntry,
+  IPersistenceConfig,
+  StorageStoreName
+} from './interfaces/storage.interface'
+export type { IMessageTypeRenderer } from './interfaces/registry.interface'
+
+// Export errors
+export {
+  ChatError,
+  NetworkError,
+  TimeoutError,
+  AuthError,
+  ValidationError,
+  RateLimitError,
+  NotFoundError,
+  ServerError,
+  CancelledError,
+  isChatError,
+  toChatError
+} from './utils/errors'
+export type { ChatErrorOptions } from './utils/errors'
 
 // Export enums
+export { ChatErrorKindEnum } from './enums/error.enum'
 export { ChatInputType } from './enums/chatinput.enum'
-export { MessageStatusEnum, MessageRole } from './enums/message.enum'
+export { MessageStatusEnum, MessageRole, MessageDeleteModeEnum } from './enums/message.enum'
 export { SocketEventEnum, SocketStatusEnum } from './enums/socket.enum'
 export type { IChatInput, IUploadedFile } from './interfaces/chatinput.interface'
 
 // Install function for Vue app
-export const install = (app: App) => {
+export const install = (app: App, options: IChatKitOptions = {}) => {
+  // Storage adapter and message renderers are read from the provided config, per app
+  provideChatConfig(app, options)
+
   app.component('ChatInput', ChatInput)
   app.component('ChatList', ChatList)
   app.component('LoginModal', LoginModal)
+  app.component('EmojiPicker', EmojiPicker)
+  app.component('ThreadPanel', ThreadPanel)
+  app.component('VoiceMessagePlayer', VoiceMessagePlayer)
 }
 
 // Default export
@@ -33,6 +207,9 @@ const Vue3ChatUIKit = {
   ChatInput,
   ChatList,
   LoginModal,
+  EmojiPicker,
+  ThreadPanel,
+  VoiceMessagePlayer,
 }
 
 export default Vue3ChatUIKit
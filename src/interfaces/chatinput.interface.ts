@@ -16,3 +16,14 @@ export interface IUploadedFile {
   file: File
   preview?: string
 }
+
+// Voice message recorded in ChatInput
+export interface IVoiceMessage {
+  id: string
+  blob: Blob
+  url: string // Object URL for local playback
+  duration: number // seconds
+  mimeType: string
+  waveform: number[] // peaks between 0 and 1
+  attachment?: IAttachment // Set once uploaded
+}
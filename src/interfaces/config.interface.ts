@@ -0,0 +1,100 @@
+import type { IStorageAdapter } from './storage.interface'
+import type { IApiInterceptors } from './interceptor.interface'
+import type { INotifier } from './notifier.interface'
+import type { IMessageRendererOptions } from './renderer.interface'
+import type { IMessageTypeRenderer } from './registry.interface'
+import type { IImageProcessingOptions } from './image.interface'
+
+/**
+ * Source of the access token sent to the API and the socket server
+ */
+export interface ITokenProvider {
+  getToken(): string | null
+  // Called after sign in / sign out; omit when the host app manages tokens itself
+  setToken?(token: string | null): void
+  // Obtain a new token when the current one expired or was rejected with 401;
+  // defaults to POST /api/auth/refresh with the current token
+  refreshToken?(): Promise<string | null>
+}
+
+/**
+ * Upload endpoints, relative to apiBaseUrl
+ */
+export interface IUploadEndpoints {
+  image: string
+  video: string
+  audio: string
+  document: string
+  file: string
+  supportedTypes: string
+  resumable: string // Chunked upload sessions, see useFileUpload
+}
+
+/**
+ * Chunked (resumable) uploads of large files
+ */
+export interface IUploadConfig {
+  resumableThreshold: number // Files from this size (bytes) are uploaded in chunks, 0 = always
+  chunkSize: number // Bytes per chunk
+  maxChunkRetries: number // Attempts per chunk before the upload fails
+  retryDelay: number // Base delay in ms, doubled on each attempt
+  storageKey: string // localStorage key of the sessions that can be resumed after a reload
+  concurrency: number // Files uploadFiles sends at the same time
+}
+
+/**
+ * Voice message recording
+ */
+export interface IVoiceConfig {
+  mimeTypes: string[] // Recording formats in order of preference, the first MediaRecorder supports is used
+  waveformBars: number // Peaks stored with the attachment
+  audioBitsPerSecond?: number // Encoder bitrate, browser default when omitted
+}
+
+/**
+ * Optional features of the kit
+ */
+export interface IChatFeatureFlags {
+  socket: boolean // Realtime messaging, REST only when disabled
+  offlineCache: boolean // Cache conversations and messages in the storage adapter
+}
+
+/**
+ * Options accepted by install(app, options)
+ */
+export interface IChatKitOptions {
+  apiBaseUrl?: string
+  socketUrl?: string // Defaults to apiBaseUrl
+  tokenProvider?: ITokenProvider
+  storageAdapter?: IStorageAdapter
+  uploadEndpoints?: Partial<IUploadEndpoints>
+  upload?: Partial<IUploadConfig>
+  imageProcessing?: Partial<IImageProcessingOptions> // Resize, re-encode and thumbnail images before upload
+  voice?: Partial<IVoiceConfig>
+  features?: Partial<IChatFeatureFlags>
+  interceptors?: Partial<IApiInterceptors>
+  notifier?: INotifier // Defaults to Element Plus messages
+  messageEditWindow?: number // ms after sending during which own messages can be edited, 0 = always
+  markdown?: IMessageRendererOptions // Raw HTML policy, link target and sanitizer allowlists
+  messageRenderers?: IMessageTypeRenderer[] // Components for custom message types of this app
+}
+
+/**
+ * Resolved configuration provided to every composable and component
+ */
+export interface IChatKitConfig {
+  apiBaseUrl: string
+  socketUrl: string
+  tokenProvider: ITokenProvider
+  storageAdapter?: IStorageAdapter
+  uploadEndpoints: IUploadEndpoints
+  upload: IUploadConfig
+  imageProcessing: IImageProcessingOptions
+  voice: IVoiceConfig
+  features: IChatFeatureFlags
+  interceptors: IApiInterceptors
+  notifier: INotifier
+  messageEditWindow: number
+  markdown: IMessageRendererOptions
+  messageRenderers: IMessageTypeRenderer[]
+}
@@ -34,6 +34,7 @@ export interface IConversation {
   lastMessage?: IMessage
   lastMessageAt?: Date
   unreadCount?: number
+  mentionedMe?: boolean // A message mentioning the current user arrived since the conversation was opened
   createdAt: Date
   updatedAt: Date
   metadata?: {
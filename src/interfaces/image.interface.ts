@@ -0,0 +1,58 @@
+/**
+ * Encoding of processed images
+ */
+export type ImageOutputFormat = 'image/webp' | 'image/jpeg'
+
+/**
+ * Image pipeline applied before upload
+ */
+export interface IImageProcessingOptions {
+  enabled: boolean
+  maxDimension: number // Longest side in pixels, larger images are scaled down
+  quality: number // Encoder quality, 0-1
+  format: ImageOutputFormat // PNG sources stay PNG when JPEG is requested (transparency)
+  thumbnailSize: number // Longest side of the thumbnail in pixels
+  thumbnailQuality: number
+  skipTypes: string[] // Uploaded untouched (animations, vector images)
+}
+
+/**
+ * Image ready for upload
+ */
+export interface IProcessedImage {
+  file: File // Re-encoded (oriented, without EXIF) or the original
+  processed: boolean // False when the original is uploaded as is
+  width?: number
+  height?: number
+  thumbnailUrl?: string // Data URL for local previews, never sent with the message
+  thumbnail?: File // Uploaded next to the image, its URL becomes IAttachment.thumbnailUrl
+  thumbnailWidth?: number
+  thumbnailHeight?: number
+}
+
+/**
+ * Result of the pipeline, as sent back by the worker
+ */
+export interface IImageProcessingResult {
+  blob?: Blob // Undefined when the original should be kept
+  width: number
+  height: number
+  thumbnail?: Blob
+  thumbnailWidth?: number
+  thumbnailHeight?: number
+}
+
+/**
+ * Messages exchanged with the image worker
+ */
+export interface IImageWorkerRequest {
+  id: number
+  file: Blob
+  options: IImageProcessingOptions
+}
+
+export interface IImageWorkerResponse {
+  id: number
+  result?: IImageProcessingResult
+  error?: string
+}
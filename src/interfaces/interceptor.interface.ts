@@ -0,0 +1,42 @@
+/**
+ * Outgoing request as seen by request interceptors
+ */
+export interface IApiRequest {
+  method: string
+  url: string // Relative to apiBaseUrl
+  headers: Record<string, string>
+  body?: unknown // Plain objects are serialized to JSON after the request interceptors ran
+}
+
+/**
+ * Successful response as seen by response interceptors
+ */
+export interface IApiResponse<T = unknown> {
+  request: IApiRequest
+  status: number
+  statusText: string
+  headers: Headers
+  data: T
+}
+
+/**
+ * Context passed to error interceptors
+ */
+export interface IApiErrorContext {
+  request: IApiRequest
+  response?: IApiResponse // Missing for network errors and timeouts
+}
+
+export type RequestInterceptor = (request: IApiRequest) => IApiRequest | Promise<IApiRequest>
+export type ResponseInterceptor = (response: IApiResponse) => IApiResponse | Promise<IApiResponse>
+// Return the error to throw (the same one or a replacement)
+export type ErrorInterceptor = (error: Error, context: IApiErrorContext) => Error | Promise<Error>
+
+/**
+ * Interceptors applied to every useApi and upload request, in registration order
+ */
+export interface IApiInterceptors {
+  request: RequestInterceptor[]
+  response: ResponseInterceptor[]
+  error: ErrorInterceptor[]
+}
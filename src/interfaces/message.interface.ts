@@ -4,6 +4,30 @@ import type { IUser } from './user.interface'
 // Message types based on CHAT_API_DOCUMENTATION.md
 export type MessageType = 'text' | 'image' | 'file' | 'system'
 
+// Previous content of an edited message
+export interface IMessageRevision {
+  content: string
+  replacedAt: Date // When the next edit replaced this content
+}
+
+// User who reacted to a message
+export interface IReactionUser {
+  id: string
+  name: string
+}
+
+// Reactions with the same emoji, aggregated
+export interface IMessageReaction {
+  emoji: string
+  users: IReactionUser[] // In reaction order, count is users.length
+}
+
+// User mentioned in a message, parsed from a @[name](userId) token
+export interface IMention {
+  userId: string
+  name: string
+}
+
 // Chat message interface (from API documentation)
 export interface IChatMessage {
   id: string
@@ -22,6 +46,7 @@ export interface IChatMessage {
   isDeleted: boolean
   editedAt?: Date
   deletedAt?: Date
+  reactions?: IMessageReaction[]
   createdAt: Date
   updatedAt: Date
 }
@@ -41,13 +66,14 @@ export interface IMessage {
   content: string
   role: 'user' | 'assistant'
   timestamp: Date
-  type?: 'text' | 'image' | 'audio' | 'video' | 'file'
+  type?: 'text' | 'image' | 'audio' | 'video' | 'file' | (string & {}) // Custom types, see useMessageRenderers
   fileUrl?: string
   fileName?: string
   isTyping?: boolean
   avatar?: string
   metadata?: Record<string, any>
   selectedText?: string
+  reactions?: IMessageReaction[]
   // Pin message fields
   isPinned?: boolean
   pinnedBy?: string
@@ -64,6 +90,7 @@ export interface IAttachment {
   height?: number // height in pixels
   duration?: number // duration in seconds
   thumbnailUrl?: string // thumbnail url
+  waveform?: number[] // audio peaks between 0 and 1
 }
 
 export interface IMessageShow extends IMessage {
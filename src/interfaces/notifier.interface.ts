@@ -0,0 +1,22 @@
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'error'
+
+/**
+ * Notification emitted by a composable
+ */
+export interface INotification {
+  key: string // i18n key, e.g. 'pin.pinned'
+  message: string // Default English text, already interpolated
+  payload?: Record<string, unknown> // Values for the translated message (names, error, ...)
+  duration?: number // ms, adapter default when omitted
+  closable?: boolean
+}
+
+/**
+ * Destination of notifications (toasts, logging, ...)
+ */
+export interface INotifier {
+  info(notification: INotification): void
+  success(notification: INotification): void
+  warning(notification: INotification): void
+  error(notification: INotification): void
+}
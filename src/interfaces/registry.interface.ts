@@ -0,0 +1,15 @@
+import type { Component } from 'vue'
+import type { IMessage } from './message.interface'
+
+/**
+ * Renderer of a custom message type (payment request, order status, location, poll...)
+ *
+ * Matched by message.type, or by match() for messages told apart by their metadata.
+ */
+export interface IMessageTypeRenderer {
+  type: string
+  component?: Component // Rendered inside the bubble with props { message: IMessage, isOwn: boolean }
+  match?: (message: IMessage) => boolean // Metadata discriminator, e.g. m => !!m.metadata?.poll
+  preview?: (message: IMessage) => string // Conversation list preview, without the "You: " prefix
+  priority?: number // Higher wins when several renderers match, defaults to 0
+}
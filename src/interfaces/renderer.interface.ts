@@ -0,0 +1,34 @@
+/**
+ * What happens to raw HTML inside message markdown
+ * - escape: shown as text
+ * - sanitize: allowlisted tags and attributes are kept, everything else is removed
+ */
+export type RawHtmlPolicy = 'escape' | 'sanitize'
+
+/**
+ * Options of the message markdown renderer, allowlists extend the defaults
+ */
+export interface IMessageRendererOptions {
+  rawHtml?: RawHtmlPolicy // Defaults to 'sanitize' ('escape' where no DOM is available)
+  linkTarget?: string | null // Target of links, defaults to '_blank', null keeps links in the same tab
+  allowedTags?: string[] // Extra tags, e.g. ['details', 'summary']
+  allowedAttributes?: Record<string, string[]> // Extra attributes per tag, '*' applies to every tag
+  allowedProtocols?: string[] // Extra URL schemes, e.g. ['ftp']
+  highlight?: boolean // Syntax highlighting of fenced code, defaults to true
+}
+
+/**
+ * Per-render context of the message renderer
+ */
+export interface IMessageRenderContext {
+  currentUserId?: string // Mentions of this user get the mention-self class
+}
+
+/**
+ * Renders message markdown to HTML that is safe to inject with v-html
+ */
+export interface IMessageRenderer {
+  render(markdown: string, context?: IMessageRenderContext): string
+  sanitize(html: string): string
+  isSafeUrl(url: string): boolean
+}
@@ -0,0 +1,256 @@
+import { SocketEventEnum } from '../enums/socket.enum'
+import type { MessageStatusEnum } from '../enums/message.enum'
+import type { IMessage, IAttachment } from './message.interface'
+import type {
+  IPinMessageDto,
+  IUnpinMessageDto,
+  IReorderPinnedMessageDto,
+  IMessagePinnedEvent,
+  IMessageUnpinnedEvent,
+  IPinnedMessageReorderedEvent,
+  IConversationPinnedMessages
+} from './pin.interface'
+import type { IFriendshipNotification } from './friendship.interface'
+
+/**
+ * Raw message payload as emitted by the backend.
+ * Field names vary between backend versions, see utils/socketMessageParser.
+ */
+export interface ISocketMessagePayload {
+  id?: string
+  _id?: string
+  clientId?: string // Echo of ISocketSendMessage.clientId
+  conversationId?: string
+  sender?: {
+    id?: string
+    _id?: string
+    name?: string
+    username?: string
+    email?: string
+    avatar?: string
+    avatarUrl?: string
+    isOnline?: boolean
+  }
+  senderId?: string
+  sender_id?: string
+  senderName?: string
+  senderAvatar?: string
+  content?: string
+  type?: string
+  status?: string
+  fileUrl?: string
+  fileName?: string
+  attachments?: IAttachment[]
+  readBy?: string[]
+  listenedBy?: string[] // Voice messages: users who played it
+  replyTo?: string | ISocketMessagePayload
+  replyToMessage?: ISocketMessagePayload
+  replyMessage?: ISocketMessagePayload
+  isEdited?: boolean
+  isDeleted?: boolean
+  editedAt?: string | Date
+  editHistory?: Array<{ content: string; replacedAt?: string | Date; editedAt?: string | Date }>
+  reactions?: ISocketReactionPayload[]
+  mentions?: Array<string | { id?: string; _id?: string; name?: string }>
+  createdAt?: string | Date
+  updatedAt?: string | Date
+}
+
+/**
+ * Raw reaction as sent by the backend, either one entry per user or already aggregated per emoji
+ */
+export interface ISocketReactionPayload {
+  emoji: string
+  userId?: string
+  userName?: string
+  user?: { id?: string; _id?: string; name?: string; username?: string }
+  users?: Array<{ id?: string; _id?: string; name?: string; username?: string }>
+}
+
+/**
+ * Message body sent with send_message
+ */
+export interface ISocketSendMessage {
+  clientId?: string // Client-generated ID, echoed back by the server
+  content: string
+  type?: string
+  fileUrl?: string
+  fileName?: string
+  attachments?: IAttachment[]
+  replyTo?: string
+  mentions?: string[] // IDs of the users mentioned in content
+}
+
+/**
+ * Payload of send_message
+ */
+export interface ISocketSendMessagePayload {
+  conversationId: string
+  message: ISocketSendMessage
+}
+
+/**
+ * Acknowledgement returned by the server for send_message
+ */
+export interface ISendMessageAck {
+  success: boolean
+  message?: ISocketMessagePayload
+  error?: string
+}
+
+/**
+ * Message waiting in the outbound queue of useSocket
+ */
+export interface IOutboundMessage {
+  clientId: string
+  conversationId: string
+  message: ISocketSendMessage
+  status: MessageStatusEnum
+  attempts: number
+  error?: string
+  messageId?: string // Server message ID, set once acknowledged
+  createdAt: number
+}
+
+/**
+ * Payload of every event that only targets a conversation
+ * (join/leave, typing, get_pinned_messages)
+ */
+export interface ISocketConversationPayload {
+  conversationId: string
+}
+
+/**
+ * Payload of mark_as_read
+ */
+export interface ISocketMarkAsReadPayload {
+  conversationId: string
+  messageId: string
+}
+
+/**
+ * Payload of user_typing
+ */
+export interface IUserTypingEvent {
+  userId: string
+  conversationId: string
+  isTyping: boolean
+}
+
+/**
+ * Payload of message_read
+ */
+export interface IMessageReadEvent {
+  messageId: string
+  readBy: string[]
+}
+
+/**
+ * Payload of message_listened (a participant played a voice message)
+ */
+export interface IMessageListenedEvent {
+  messageId: string
+  listenedBy: string[]
+}
+
+/**
+ * Payload of message_deleted (sent for "delete for everyone" only)
+ */
+export interface IMessageDeletedEvent {
+  messageId: string
+  conversationId: string
+  deletedBy?: string
+  deletedAt?: string | Date
+}
+
+/**
+ * Payload of reaction_added / reaction_removed
+ */
+export interface IMessageReactionEvent {
+  messageId: string
+  conversationId: string
+  emoji: string
+  userId: string
+  userName?: string
+}
+
+/**
+ * Raw payload of conversation_updated
+ */
+export interface ISocketConversationUpdatedPayload {
+  conversationId: string
+  lastMessage?: ISocketMessagePayload
+}
+
+/**
+ * conversation_updated after message normalization
+ */
+export interface IConversationUpdatedEvent {
+  conversationId: string
+  lastMessage?: IMessage
+}
+
+/**
+ * Payload of error, converted to a ChatError by useSocket
+ */
+export interface ISocketErrorPayload {
+  message?: string
+  code?: string
+  status?: number
+  retryAfter?: number // Seconds
+}
+
+/**
+ * Events the server emits to the client
+ */
+export interface ServerToClientEvents {
+  [SocketEventEnum.NEW_MESSAGE]: (message: ISocketMessagePayload) => void
+  [SocketEventEnum.MESSAGE_READ]: (data: IMessageReadEvent) => void
+  [SocketEventEnum.MESSAGE_LISTENED]: (data: IMessageListenedEvent) => void
+  [SocketEventEnum.MESSAGE_UPDATED]: (message: ISocketMessagePayload) => void
+  [SocketEventEnum.MESSAGE_DELETED]: (data: IMessageDeletedEvent) => void
+  [SocketEventEnum.REACTION_ADDED]: (data: IMessageReactionEvent) => void
+  [SocketEventEnum.REACTION_REMOVED]: (data: IMessageReactionEvent) => void
+  [SocketEventEnum.CONVERSATION_UPDATED]: (data: ISocketConversationUpdatedPayload) => void
+  [SocketEventEnum.USER_TYPING]: (data: IUserTypingEvent) => void
+  [SocketEventEnum.USER_ONLINE]: (userId: string) => void
+  [SocketEventEnum.USER_OFFLINE]: (userId: string) => void
+  [SocketEventEnum.USER_ONLINE_ALT]: (userId: string) => void
+  [SocketEventEnum.USER_OFFLINE_ALT]: (userId: string) => void
+  [SocketEventEnum.ONLINE]: (userId: string) => void
+  [SocketEventEnum.OFFLINE]: (userId: string) => void
+  [SocketEventEnum.ONLINE_USERS]: (userIds: string[]) => void
+  [SocketEventEnum.USERS_ONLINE]: (userIds: string[]) => void
+  [SocketEventEnum.MESSAGE_PINNED]: (data: IMessagePinnedEvent) => void
+  [SocketEventEnum.MESSAGE_UNPINNED]: (data: IMessageUnpinnedEvent) => void
+  [SocketEventEnum.PINNED_MESSAGE_REORDERED]: (data: IPinnedMessageReorderedEvent) => void
+  [SocketEventEnum.PINNED_MESSAGES_RESPONSE]: (data: IConversationPinnedMessages) => void
+  [SocketEventEnum.FRIEND_REQUEST_RECEIVED]: (data: IFriendshipNotification) => void
+  [SocketEventEnum.FRIEND_REQUEST_ACCEPTED]: (data: IFriendshipNotification) => void
+  [SocketEventEnum.FRIEND_REQUEST_DECLINED]: (data: IFriendshipNotification) => void
+  [SocketEventEnum.ERROR]: (error: ISocketErrorPayload | string) => void
+}
+
+/**
+ * Events the client emits to the server
+ */
+export interface ClientToServerEvents {
+  [SocketEventEnum.SEND_MESSAGE]: (
+    payload: ISocketSendMessagePayload,
+    callback: (ack: ISendMessageAck) => void
+  ) => void
+  [SocketEventEnum.MARK_AS_READ]: (payload: ISocketMarkAsReadPayload) => void
+  [SocketEventEnum.MARK_AS_LISTENED]: (payload: ISocketMarkAsReadPayload) => void
+  [SocketEventEnum.TYPING_START]: (payload: ISocketConversationPayload) => void
+  [SocketEventEnum.TYPING_STOP]: (payload: ISocketConversationPayload) => void
+  [SocketEventEnum.JOIN_CONVERSATION]: (payload: ISocketConversationPayload) => void
+  [SocketEventEnum.LEAVE_CONVERSATION]: (payload: ISocketConversationPayload) => void
+  [SocketEventEnum.PIN_MESSAGE]: (payload: IPinMessageDto) => void
+  [SocketEventEnum.UNPIN_MESSAGE]: (payload: IUnpinMessageDto) => void
+  [SocketEventEnum.REORDER_PINNED_MESSAGE]: (payload: IReorderPinnedMessageDto) => void
+  [SocketEventEnum.GET_PINNED_MESSAGES]: (payload: ISocketConversationPayload) => void
+  [SocketEventEnum.GET_ONLINE_USERS]: () => void
+}
+
+export type ServerToClientEventName = keyof ServerToClientEvents
+export type ClientToServerEventName = keyof ClientToServerEvents
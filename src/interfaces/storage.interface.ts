@@ -0,0 +1,43 @@
+/**
+ * Object stores used by the offline cache
+ */
+export type StorageStoreName = 'conversations' | 'messages' | 'pinnedMessages' | 'users'
+
+/**
+ * Serialized value as written by usePersistence
+ */
+export interface IStoredRecord {
+  data: string // JSON payload
+  updatedAt: number // Write time, used for eviction
+}
+
+/**
+ * Stored record together with its key
+ */
+export interface IStoredEntry {
+  key: string
+  record: IStoredRecord
+}
+
+/**
+ * Backend of the offline cache (IndexedDB by default, in-memory for tests)
+ */
+export interface IStorageAdapter {
+  getItem(store: StorageStoreName, key: string): Promise<IStoredRecord | undefined>
+  setItem(store: StorageStoreName, key: string, record: IStoredRecord): Promise<void>
+  removeItem(store: StorageStoreName, key: string): Promise<void>
+  // Every entry whose key starts with prefix
+  getAll(store: StorageStoreName, prefix: string): Promise<IStoredEntry[]>
+  // Remove every entry whose key starts with prefix (all stores when store is omitted)
+  clear(prefix: string, store?: StorageStoreName): Promise<void>
+}
+
+/**
+ * Options of the offline cache
+ */
+export interface IPersistenceConfig {
+  adapter?: IStorageAdapter
+  maxMessagesPerConversation?: number // Most recent messages kept per conversation
+  maxConversations?: number // Conversations with cached messages, least recently written are evicted
+  flushDelay?: number // ms to batch writes
+}
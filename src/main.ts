@@ -5,12 +5,22 @@ import ElementPlus from 'element-plus'
 import * as ElementPlusIconsVue from '@element-plus/icons-vue'
 import vue3GoogleLogin from 'vue3-google-login'
 import App from './App.vue'
+import Vue3ChatUIKit from './index'
 
 const app = createApp(App)
 
 // Element Plus
 app.use(ElementPlus)
 
+// Chat UI kit - the demo app reads its backend from the Vite env
+app.use(Vue3ChatUIKit, {
+  apiBaseUrl: import.meta.env.VITE_API_BASE_URL || '',
+  socketUrl: import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000',
+  features: {
+    socket: import.meta.env.VITE_USE_SOCKET === 'true'
+  }
+})
+
 // Google Login - Use popup mode to get JWT token directly
 const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID || ''
 app.use(vue3GoogleLogin, {
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest'
+import { createMessageRenderer, isSafeUrl } from '../messageRenderer'
+
+const renderer = createMessageRenderer()
+
+// Parse rendered HTML so assertions look at the DOM, not at string formatting
+function parse(html: string): HTMLElement {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  return container
+}
+
+function attributesOf(root: HTMLElement): { name: string; value: string }[] {
+  return Array.from(root.querySelectorAll('*')).flatMap(element =>
+    Array.from(element.attributes).map(({ name, value }) => ({ name, value }))
+  )
+}
+
+function expectNoActiveContent(html: string) {
+  const root = parse(html)
+  expect(root.querySelector('script, iframe, object, embed, svg, math, style, form, base, meta, link')).toBeNull()
+  attributesOf(root).forEach(({ name, value }) => {
+    expect(name.startsWith('on')).toBe(false)
+    if (['href', 'src', 'xlink:href', 'action', 'formaction'].includes(name)) {
+      expect(isSafeUrl(value)).toBe(true)
+    }
+  })
+}
+
+describe('isSafeUrl', () => {
+  it('allows relative URLs and the default protocols', () => {
+    expect(isSafeUrl('/path?q=1')).toBe(true)
+    expect(isSafeUrl('#anchor')).toBe(true)
+    expect(isSafeUrl('https://example.com')).toBe(true)
+    expect(isSafeUrl('mailto:me@example.com')).toBe(true)
+    expect(isSafeUrl('tel:+123')).toBe(true)
+  })
+
+  it.each([
+    'javascript:alert(1)',
+    'JAVASCRIPT:alert(1)',
+    'vbscript:msgbox(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    ' \u0001javascript:alert(1)',
+    'jav\u0000ascript:alert(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    'data:image/svg+xml,<svg onload=alert(1)>'
+  ])('rejects %j', (url) => {
+    expect(isSafeUrl(url)).toBe(false)
+  })
+
+  it('accepts extra protocols only when configured', () => {
+    expect(isSafeUrl('ftp://example.com')).toBe(false)
+    expect(isSafeUrl('ftp://example.com', ['ftp'])).toBe(true)
+  })
+})
+
+describe('createMessageRenderer', () => {
+  describe('script and event handlers', () => {
+    it.each([
+      '<script>alert(1)</script>',
+      '<SCRIPT SRC=//evil.example/x.js></SCRIPT>',
+      '<img src=x onerror=alert(1)>',
+      '<p onclick="alert(1)">click</p>',
+      '<a href="https://example.com" onmouseover="alert(1)">link</a>',
+      '<body onload=alert(1)>',
+      '<iframe src="javascript:alert(1)"></iframe>',
+      '<object data="javascript:alert(1)"></object>',
+      '<embed src="javascript:alert(1)">',
+      '<form action="javascript:alert(1)"><button formaction="javascript:alert(1)">x</button></form>',
+      '<details open ontoggle=alert(1)>',
+      '<!--<img src=x onerror=alert(1)>-->'
+    ])('neutralizes %j', (payload) => {
+      expectNoActiveContent(renderer.render(payload))
+    })
+
+    it('drops script content instead of showing it', () => {
+      expect(renderer.render('<script>alert(1)</script>')).not.toContain('alert(1)')
+    })
+
+    it('keeps the text of unknown tags', () => {
+      expect(parse(renderer.render('<custom-tag>hello</custom-tag>')).textContent).toContain('hello')
+    })
+  })
+
+  describe('dangerous URLs', () => {
+    it.each([
+      '[x](javascript:alert(1))',
+      '[x](JaVaScRiPt:alert(1))',
+      '[x](vbscript:msgbox(1))',
+      '[x](data:text/html;base64,PHNjcmlwdD4=)',
+      '![x](javascript:alert(1))',
+      '<a href="javascript:alert(1)">x</a>',
+      '<a href="jav&#x61;script:alert(1)">x</a>',
+      '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+      '<a href="java&#x09;script:alert(1)">x</a>',
+      '<a href="java&#10;script:alert(1)">x</a>',
+      '<a href=" &#x01; javascript:alert(1)">x</a>',
+      '<a href="vbscript:msgbox(1)">x</a>',
+      '<a href="data:text/html,<script>alert(1)</script>">x</a>',
+      '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">',
+      '<img src="javascript:alert(1)">'
+    ])('removes the URL of %j', (payload) => {
+      expectNoActiveContent(renderer.render(payload))
+    })
+
+    it('adds rel and target to links', () => {
+      const link = parse(renderer.render('[x](https://example.com)')).querySelector('a')
+      expect(link?.getAttribute('href')).toBe('https://example.com')
+      expect(link?.getAttribute('rel')).toBe('noopener noreferrer')
+      expect(link?.getAttribute('target')).toBe('_blank')
+    })
+
+    it('applies the link policy to raw HTML links too', () => {
+      const link = parse(renderer.render('<a href="https://example.com" target="_top">x</a>')).querySelector('a')
+      expect(link?.getAttribute('rel')).toBe('noopener noreferrer')
+      expect(link?.getAttribute('target')).toBe('_blank')
+    })
+  })
+
+  describe('svg and math', () => {
+    it.each([
+      '<svg onload=alert(1)>',
+      '<svg><script>alert(1)</script></svg>',
+      '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+      '<svg><animate attributeName=href to=javascript:alert(1) /></svg>',
+      '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+      '<math href="javascript:alert(1)">x</math>'
+    ])('drops %j', (payload) => {
+      expectNoActiveContent(renderer.render(payload))
+    })
+  })
+
+  describe('style injection', () => {
+    it('drops style elements', () => {
+      const html = renderer.render('<style>body { display: none }</style>text')
+      expect(parse(html).querySelector('style')).toBeNull()
+      expect(html).not.toContain('display: none')
+    })
+
+    it.each([
+      '<p style="background:url(javascript:alert(1))">x</p>',
+      '<p style="position:fixed;top:0;left:0;width:100%;height:100%">x</p>',
+      '<td style="text-align:left;background:red">x</td>'
+    ])('removes the style attribute of %j', (payload) => {
+      const root = parse(renderer.render(payload))
+      expect(root.querySelector('[style]')).toBeNull()
+    })
+
+    it('keeps markdown table alignment', () => {
+      const root = parse(renderer.render('| a |\n|:-:|\n| b |'))
+      expect(root.querySelector('td')?.getAttribute('style')).toMatch(/^text-align:\s*center;?$/)
+    })
+
+    it('drops host class names', () => {
+      const root = parse(renderer.render('<span class="mention fixed-overlay">x</span>'))
+      expect(root.querySelector('span')?.getAttribute('class')).toBe('mention')
+    })
+  })
+
+  describe('mentions', () => {
+    it('renders a mention token', () => {
+      const root = parse(renderer.render('hi @[Ann Lee](u1)', { currentUserId: 'u1' }))
+      const mention = root.querySelector('span.mention')
+      expect(mention?.textContent).toBe('@Ann Lee')
+      expect(mention?.getAttribute('data-user-id')).toBe('u1')
+      expect(mention?.classList.contains('mention-self')).toBe(true)
+    })
+
+    it.each([
+      '@[<img src=x onerror=alert(1)>](u1)',
+      '@[<script>alert(1)</script>](u1)',
+      '@["><svg onload=alert(1)>](u1)',
+      '@[x" onmouseover="alert(1)](u1)'
+    ])('escapes HTML in the name of %j', (payload) => {
+      const html = renderer.render(payload)
+      expectNoActiveContent(html)
+      const mention = parse(html).querySelector('span.mention')
+      if (mention) {
+        expect(Array.from(mention.attributes).map(a => a.name).sort()).toEqual(['class', 'data-user-id'])
+      }
+    })
+
+    it.each([
+      '@[Ann](u1"onmouseover="alert(1))',
+      '@[Ann](u1><img src=x onerror=alert(1)>)',
+      '@[Ann](javascript:alert(1))'
+    ])('does not render %j as a mention with an unsafe ID', (payload) => {
+      const html = renderer.render(payload)
+      expectNoActiveContent(html)
+      parse(html).querySelectorAll('span.mention').forEach(mention => {
+        expect(mention.getAttribute('data-user-id')).toMatch(/^[\w-]+$/)
+      })
+    })
+  })
+
+  describe('raw HTML policy', () => {
+    it('escapes raw HTML with rawHtml: escape', () => {
+      const escaping = createMessageRenderer({ rawHtml: 'escape' })
+      const root = parse(escaping.render('<b onclick=alert(1)>x</b>'))
+      expect(root.querySelector('b')).toBeNull()
+      expect(root.textContent).toContain('<b onclick=alert(1)>x</b>')
+    })
+
+    it('keeps allowlisted formatting', () => {
+      const root = parse(renderer.render('<b>bold</b> and <kbd>Ctrl</kbd>'))
+      expect(root.querySelector('b')?.textContent).toBe('bold')
+      expect(root.querySelector('kbd')?.textContent).toBe('Ctrl')
+    })
+
+    it('never allows event handlers, even when the host allowlists them', () => {
+      const permissive = createMessageRenderer({ allowedAttributes: { '*': ['onclick'], p: ['onmouseover'] } })
+      expectNoActiveContent(permissive.render('<p onclick="alert(1)" onmouseover="alert(1)">x</p>'))
+    })
+  })
+
+  describe('sanitize', () => {
+    it('cleans HTML that did not come from markdown', () => {
+      expectNoActiveContent(renderer.sanitize('<div><img src=x onerror=alert(1)><a href="javascript:alert(1)">x</a></div>'))
+    })
+  })
+})
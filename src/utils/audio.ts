@@ -0,0 +1,96 @@
+/**
+ * Audio Utilities
+ *
+ * Codec negotiation for MediaRecorder and waveform peaks of recorded audio.
+ * Peaks are normalized to 0-1 and stored with the attachment, so players can
+ * draw the waveform without downloading and decoding the file.
+ */
+
+// Preferred first: Opus in WebM (Chrome, Firefox), Opus in Ogg, then AAC in MP4 (Safari)
+export const DEFAULT_RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+  'audio/webm',
+  'audio/ogg'
+]
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav'
+}
+
+/**
+ * First MIME type MediaRecorder can record
+ *
+ * @param candidates - MIME types in order of preference
+ * @returns Supported MIME type, or '' to let the browser pick its default
+ */
+export function pickRecordingMimeType(candidates: string[] = DEFAULT_RECORDING_MIME_TYPES): string {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') {
+    return ''
+  }
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || ''
+}
+
+/**
+ * File extension of an audio MIME type, codecs parameter ignored
+ */
+export function getAudioExtension(mimeType: string): string {
+  const base = mimeType.split(';')[0]?.trim().toLowerCase() || ''
+  return EXTENSIONS[base] || 'webm'
+}
+
+/**
+ * Reduce samples to a number of peaks, normalized so the loudest bar is 1
+ *
+ * @param samples - Amplitudes (any scale, sign ignored)
+ * @param bars - Number of peaks
+ * @returns Peaks between 0 and 1, rounded to 2 decimals
+ */
+export function downsamplePeaks(samples: ArrayLike<number>, bars: number): number[] {
+  if (samples.length === 0 || bars <= 0) return []
+
+  const count = Math.min(bars, samples.length)
+  const size = samples.length / count
+  const peaks: number[] = []
+  for (let bar = 0; bar < count; bar++) {
+    let peak = 0
+    const end = Math.min(samples.length, Math.floor((bar + 1) * size))
+    for (let i = Math.floor(bar * size); i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i] || 0))
+    }
+    peaks.push(peak)
+  }
+
+  const max = Math.max(...peaks)
+  return peaks.map(peak => (max > 0 ? Math.round((peak / max) * 100) / 100 : 0))
+}
+
+/**
+ * Decode audio and compute its waveform peaks
+ *
+ * @param blob - Recorded or uploaded audio
+ * @param bars - Number of peaks
+ * @returns Peaks between 0 and 1, or null when the audio can't be decoded here
+ */
+export async function computeWaveformPeaks(blob: Blob, bars: number): Promise<number[] | null> {
+  if (typeof AudioContext === 'undefined') return null
+
+  const context = new AudioContext()
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer())
+    // The first channel is enough for a voice message
+    return downsamplePeaks(buffer.getChannelData(0), bars)
+  } catch (err) {
+    console.warn('⚠️ Could not decode audio for the waveform:', err)
+    return null
+  } finally {
+    void context.close()
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Client ID Utilities
+ *
+ * Client-generated IDs identify messages before the server assigns one
+ * (outbound queue entries and optimistic messages share the same ID).
+ */
+
+/**
+ * Generate a unique client-side message ID
+ *
+ * @returns ID prefixed with "client_" so it never collides with server IDs
+ */
+export function generateClientId(): string {
+  return `client_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`
+}
+
+/**
+ * Check if an ID was generated on the client
+ *
+ * @param id - Message ID to check
+ * @returns True if the ID has not been replaced by a server ID
+ */
+export function isClientId(id: string | undefined | null): boolean {
+  return !!id && id.startsWith('client_')
+}
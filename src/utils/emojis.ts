@@ -0,0 +1,51 @@
+/**
+ * Emoji Utilities
+ *
+ * Emoji sets used by the reaction quick-pick bar and the full emoji picker.
+ */
+
+export interface IEmojiCategory {
+  name: string
+  emojis: string[]
+}
+
+// Shown in the quick-pick bar of every message
+export const QUICK_REACTIONS: string[] = ['👍', '❤️', '😂', '😮', '😢', '🙏']
+
+// Full picker, grouped by category
+export const EMOJI_CATEGORIES: IEmojiCategory[] = [
+  {
+    name: 'Smileys',
+    emojis: [
+      '😀', '😃', '😄', '😁', '😆', '😅', '🤣', '😂', '🙂', '🙃', '😉', '😊',
+      '😇', '🥰', '😍', '🤩', '😘', '😋', '😛', '😜', '🤪', '🤗', '🤭', '🤫',
+      '🤔', '🤐', '🤨', '😐', '😑', '😶', '😏', '😒', '🙄', '😬', '😌', '😔',
+      '😪', '😴', '😷', '🤒', '🤯', '🥳', '😎', '🤓', '😕', '😟', '😮', '😲',
+      '😳', '🥺', '😦', '😨', '😰', '😢', '😭', '😱', '😖', '😣', '😞', '😩',
+      '😫', '🥱', '😤', '😡', '😠', '🤬', '😈', '💀', '🤡', '👻', '👽', '🤖'
+    ]
+  },
+  {
+    name: 'Gestures',
+    emojis: [
+      '👍', '👎', '👌', '✌️', '🤞', '🤟', '🤘', '🤙', '👈', '👉', '👆', '👇',
+      '☝️', '✋', '🤚', '🖐️', '🖖', '👋', '👏', '🙌', '👐', '🤲', '🤝', '🙏',
+      '✍️', '💪', '🫶', '👀', '🧠', '🫡'
+    ]
+  },
+  {
+    name: 'Hearts',
+    emojis: [
+      '❤️', '🧡', '💛', '💚', '💙', '💜', '🖤', '🤍', '🤎', '💔', '❣️', '💕',
+      '💞', '💓', '💗', '💖', '💘', '💝'
+    ]
+  },
+  {
+    name: 'Objects',
+    emojis: [
+      '🔥', '✨', '⭐', '🌟', '💯', '✅', '❌', '❓', '❗', '⚠️', '🎉', '🎊',
+      '🎁', '🏆', '🥇', '🚀', '💡', '📌', '📎', '📝', '📅', '⏰', '💬', '🔔',
+      '☕', '🍕', '🍺', '🍰'
+    ]
+  }
+]
@@ -0,0 +1,232 @@
+/**
+ * Error Utilities
+ *
+ * Every failure of useApi, useFileUpload and useSocket is a ChatError (or one of
+ * its subclasses) carrying the HTTP status, the backend error code and retry-after.
+ */
+
+import { ChatErrorKindEnum } from '../enums/error.enum'
+
+export interface ChatErrorOptions {
+  status?: number // HTTP status
+  code?: string // Backend error code
+  retryAfter?: number // Seconds to wait before retrying
+  details?: unknown // Backend payload (e.g. validation errors per field)
+  cause?: unknown
+}
+
+/**
+ * Base class of every error raised by the kit
+ */
+export class ChatError extends Error {
+  readonly kind: ChatErrorKindEnum
+  readonly status?: number
+  readonly code?: string
+  readonly retryAfter?: number
+  readonly details?: unknown
+  readonly cause?: unknown // Original error, if any
+
+  constructor(kind: ChatErrorKindEnum, message: string, options: ChatErrorOptions = {}) {
+    super(message)
+    this.name = 'ChatError'
+    this.kind = kind
+    this.status = options.status
+    this.code = options.code
+    this.retryAfter = options.retryAfter
+    this.details = options.details
+    this.cause = options.cause
+  }
+
+  // Whether sending the same request again may succeed
+  get isRetryable(): boolean {
+    return [
+      ChatErrorKindEnum.NETWORK,
+      ChatErrorKindEnum.TIMEOUT,
+      ChatErrorKindEnum.RATE_LIMIT,
+      ChatErrorKindEnum.SERVER
+    ].includes(this.kind)
+  }
+}
+
+export class NetworkError extends ChatError {
+  constructor(message = 'Network error', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.NETWORK, message, options)
+    this.name = 'NetworkError'
+  }
+}
+
+export class TimeoutError extends ChatError {
+  constructor(message = 'Request timeout', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.TIMEOUT, message, options)
+    this.name = 'TimeoutError'
+  }
+}
+
+export class AuthError extends ChatError {
+  constructor(message = 'Authentication failed', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.AUTH, message, options)
+    this.name = 'AuthError'
+  }
+}
+
+export class ValidationError extends ChatError {
+  constructor(message = 'Invalid request', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.VALIDATION, message, options)
+    this.name = 'ValidationError'
+  }
+}
+
+export class RateLimitError extends ChatError {
+  constructor(message = 'Too many requests', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.RATE_LIMIT, message, options)
+    this.name = 'RateLimitError'
+  }
+}
+
+export class NotFoundError extends ChatError {
+  constructor(message = 'Not found', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.NOT_FOUND, message, options)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class ServerError extends ChatError {
+  constructor(message = 'Server error', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.SERVER, message, options)
+    this.name = 'ServerError'
+  }
+}
+
+export class CancelledError extends ChatError {
+  constructor(message = 'Request cancelled', options?: ChatErrorOptions) {
+    super(ChatErrorKindEnum.CANCELLED, message, options)
+    this.name = 'CancelledError'
+  }
+}
+
+/**
+ * Check if a value is a ChatError, optionally of a given kind
+ *
+ * @param error - Caught value
+ * @param kind - Kind to match
+ */
+export function isChatError(error: unknown, kind?: ChatErrorKindEnum): error is ChatError {
+  return error instanceof ChatError && (!kind || error.kind === kind)
+}
+
+/**
+ * Parse a Retry-After value (seconds or HTTP date)
+ *
+ * @returns Seconds to wait, or undefined
+ */
+export function parseRetryAfter(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+  if (typeof value === 'number') return value
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return seconds
+
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+// Error body shapes returned by the backend
+interface IErrorBody {
+  message?: string | string[]
+  error?: string
+  code?: string
+  errorCode?: string
+  retryAfter?: number
+  errors?: unknown
+}
+
+/**
+ * Build the error for a non-2xx HTTP response
+ *
+ * @param status - HTTP status
+ * @param body - Parsed response body, if any
+ * @param headers - Response headers (for Retry-After)
+ * @param fallbackMessage - Message used when the body has none
+ */
+export function createHttpError(
+  status: number,
+  body: unknown,
+  headers?: Headers,
+  fallbackMessage = `HTTP ${status}`
+): ChatError {
+  const data = (body && typeof body === 'object' ? body : {}) as IErrorBody
+  // NestJS-style validation errors send an array of messages
+  const message = (Array.isArray(data.message) ? data.message.join(', ') : data.message)
+    || data.error
+    || fallbackMessage
+  const options: ChatErrorOptions = {
+    status,
+    code: data.code || data.errorCode,
+    retryAfter: parseRetryAfter(headers?.get('Retry-After')) ?? data.retryAfter,
+    details: data.errors ?? body
+  }
+
+  if (status === 401 || status === 403) return new AuthError(message, options)
+  if (status === 404) return new NotFoundError(message, options)
+  if (status === 408) return new TimeoutError(message, options)
+  if (status === 429) return new RateLimitError(message, options)
+  if (status >= 500) return new ServerError(message, options)
+  if (status >= 400) return new ValidationError(message, options)
+  return new ChatError(ChatErrorKindEnum.UNKNOWN, message, options)
+}
+
+/**
+ * Convert anything thrown into a ChatError
+ *
+ * @param error - Caught value
+ * @param fallbackMessage - Message used when the value has none
+ */
+export function toChatError(error: unknown, fallbackMessage = 'Unknown error'): ChatError {
+  if (error instanceof ChatError) return error
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') return new TimeoutError(undefined, { cause: error })
+    // fetch rejects with a TypeError when the request cannot be sent
+    if (error.name === 'TypeError') return new NetworkError(error.message, { cause: error })
+    return new ChatError(ChatErrorKindEnum.UNKNOWN, error.message || fallbackMessage, { cause: error })
+  }
+
+  return new ChatError(ChatErrorKindEnum.UNKNOWN, typeof error === 'string' ? error : fallbackMessage, {
+    details: error
+  })
+}
+
+/**
+ * Build the error for a socket `connect_error` or `error` event
+ *
+ * @param payload - Error instance or error object emitted by the server
+ */
+export function createSocketError(payload: unknown): ChatError {
+  if (payload instanceof ChatError) return payload
+
+  const data = (payload && typeof payload === 'object' ? payload : {}) as IErrorBody & {
+    status?: number
+    data?: IErrorBody & { status?: number }
+  }
+  // Middleware errors (next(new Error(...))) carry their details in data
+  const status = data.status ?? data.data?.status
+  const message = (typeof payload === 'string' ? payload : undefined)
+    || (typeof data.message === 'string' ? data.message : undefined)
+    || data.data?.error
+    || 'Socket error'
+
+  if (status) {
+    return createHttpError(status, { ...data.data, message, code: data.code || data.data?.code }, undefined, message)
+  }
+
+  const options: ChatErrorOptions = {
+    code: data.code || data.data?.code,
+    retryAfter: data.retryAfter ?? data.data?.retryAfter,
+    details: data.data,
+    cause: payload
+  }
+  if (/unauthori[sz]ed|auth|token|jwt/i.test(message)) return new AuthError(message, options)
+  if (/timeout/i.test(message)) return new TimeoutError(message, options)
+  if (/(xhr poll|websocket|transport) error/i.test(message)) return new NetworkError(message, options)
+  return new ChatError(ChatErrorKindEnum.UNKNOWN, message, options)
+}
@@ -0,0 +1,187 @@
+/**
+ * Image Processing
+ *
+ * Pipeline applied to images before upload, run in the image worker (or on the
+ * main thread when workers are unavailable). Decoding with imageOrientation
+ * 'from-image' applies the EXIF orientation, and re-encoding through a canvas
+ * drops every metadata block (GPS position, camera, ...).
+ */
+
+import type { IImageProcessingOptions, IImageProcessingResult } from '../interfaces/image.interface'
+
+/**
+ * Formats that can carry EXIF / XMP metadata (GPS position, camera, ...),
+ * always replaced by their re-encoded copy
+ */
+export const METADATA_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'image/avif',
+  'image/tiff'
+]
+
+/**
+ * Whether this context can decode and re-encode images off the DOM
+ */
+export function canProcessImages(): boolean {
+  return typeof createImageBitmap === 'function' && typeof OffscreenCanvas !== 'undefined'
+}
+
+/**
+ * Size that fits in a square of maxDimension, keeping the aspect ratio
+ */
+export function fitDimensions(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  }
+}
+
+// Draw the bitmap at the given size and encode it, falling back to JPEG where WebP can't be encoded
+async function encode(
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  type: string,
+  quality: number
+): Promise<Blob> {
+  const canvas = new OffscreenCanvas(width, height)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas 2D context unavailable')
+
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(bitmap, 0, 0, width, height)
+
+  const blob = await canvas.convertToBlob({ type, quality })
+  if (blob.type !== type && type === 'image/webp') {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality })
+  }
+  return blob
+}
+
+// PNGs stay lossless unless another format than JPEG is asked for
+function getOutputType(file: Blob, options: IImageProcessingOptions): string {
+  return file.type === 'image/png' && options.format === 'image/jpeg' ? 'image/png' : options.format
+}
+
+/**
+ * Orient, scale down, strip metadata and create a thumbnail
+ *
+ * @param file - Original image
+ * @param options - Max dimension, quality, output format and thumbnail size
+ * @returns Re-encoded image (unless the original is smaller and cannot carry metadata) and thumbnail
+ */
+export async function processImageBlob(
+  file: Blob,
+  options: IImageProcessingOptions
+): Promise<IImageProcessingResult> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+
+  try {
+    const size = fitDimensions(bitmap.width, bitmap.height, options.maxDimension)
+    const resized = size.width !== bitmap.width || size.height !== bitmap.height
+    const type = getOutputType(file, options)
+    const encoded = await encode(bitmap, size.width, size.height, type, options.quality)
+
+    // Smaller originals are only kept when they cannot hold metadata to strip
+    const keepEncoded = resized || METADATA_IMAGE_TYPES.includes(file.type) || encoded.size < file.size
+
+    const thumbnailSize = fitDimensions(bitmap.width, bitmap.height, options.thumbnailSize)
+    const thumbnail = await encode(
+      bitmap,
+      thumbnailSize.width,
+      thumbnailSize.height,
+      options.format,
+      options.thumbnailQuality
+    )
+
+    return {
+      blob: keepEncoded ? encoded : undefined,
+      width: keepEncoded ? size.width : bitmap.width,
+      height: keepEncoded ? size.height : bitmap.height,
+      thumbnail,
+      thumbnailWidth: thumbnailSize.width,
+      thumbnailHeight: thumbnailSize.height
+    }
+  } finally {
+    bitmap.close()
+  }
+}
+
+// Draw the image on a DOM canvas and encode it, falling back to JPEG where WebP can't be encoded
+async function encodeOnCanvas(
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+  type: string,
+  quality: number
+): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas 2D context unavailable')
+
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(image, 0, 0, width, height)
+
+  const toBlob = (outputType: string) => new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))), outputType, quality)
+  })
+  const blob = await toBlob(type)
+  if (blob.type !== type && type === 'image/webp') {
+    return toBlob('image/jpeg')
+  }
+  return blob
+}
+
+/**
+ * Same pipeline on a DOM canvas, for main threads without OffscreenCanvas
+ *
+ * <img> applies the EXIF orientation itself. The re-encoded image is always
+ * returned: this path only runs when the original would otherwise be sent
+ * with its metadata.
+ *
+ * @param file - Original image
+ * @param options - Max dimension, quality, output format and thumbnail size
+ * @returns Re-encoded image and thumbnail
+ */
+export async function processImageOnCanvas(
+  file: Blob,
+  options: IImageProcessingOptions
+): Promise<IImageProcessingResult> {
+  const url = URL.createObjectURL(file)
+
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const size = fitDimensions(image.naturalWidth, image.naturalHeight, options.maxDimension)
+    const blob = await encodeOnCanvas(image, size.width, size.height, getOutputType(file, options), options.quality)
+
+    const thumbnailSize = fitDimensions(image.naturalWidth, image.naturalHeight, options.thumbnailSize)
+    const thumbnail = await encodeOnCanvas(
+      image,
+      thumbnailSize.width,
+      thumbnailSize.height,
+      options.format,
+      options.thumbnailQuality
+    )
+
+    return {
+      blob,
+      width: size.width,
+      height: size.height,
+      thumbnail,
+      thumbnailWidth: thumbnailSize.width,
+      thumbnailHeight: thumbnailSize.height
+    }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Interceptor Utilities
+ *
+ * Run the interceptor chains configured through install(app, { interceptors }).
+ * Each interceptor receives the result of the previous one.
+ */
+
+import type {
+  IApiInterceptors,
+  IApiRequest,
+  IApiResponse,
+  IApiErrorContext
+} from '../interfaces/interceptor.interface'
+
+/**
+ * Run request interceptors
+ *
+ * @param interceptors - Configured interceptors
+ * @param request - Request built by useApi or useFileUpload
+ * @returns The request to send
+ */
+export async function applyRequestInterceptors(
+  interceptors: IApiInterceptors,
+  request: IApiRequest
+): Promise<IApiRequest> {
+  let result = request
+  for (const interceptor of interceptors.request) {
+    result = await interceptor(result)
+  }
+  return result
+}
+
+/**
+ * Run response interceptors (successful responses only)
+ *
+ * @param interceptors - Configured interceptors
+ * @param response - Parsed response
+ * @returns The response whose data is returned to the caller
+ */
+export async function applyResponseInterceptors(
+  interceptors: IApiInterceptors,
+  response: IApiResponse
+): Promise<IApiResponse> {
+  let result = response
+  for (const interceptor of interceptors.response) {
+    result = await interceptor(result)
+  }
+  return result
+}
+
+/**
+ * Run error interceptors
+ *
+ * @param interceptors - Configured interceptors
+ * @param error - Error raised by the request
+ * @param context - Request and, for HTTP errors, the response
+ * @returns The error to throw
+ */
+export async function applyErrorInterceptors(
+  interceptors: IApiInterceptors,
+  error: Error,
+  context: IApiErrorContext
+): Promise<Error> {
+  let result = error
+  for (const interceptor of interceptors.error) {
+    try {
+      result = await interceptor(result, context)
+    } catch (interceptorError) {
+      // Throwing from an error interceptor replaces the error as well
+      result = interceptorError instanceof Error ? interceptorError : result
+    }
+  }
+  return result
+}
+
+/**
+ * Serialize a request body for fetch / XMLHttpRequest
+ *
+ * @param body - Body after the request interceptors ran
+ * @returns FormData, Blob and strings as-is, other values as JSON
+ */
+export function serializeBody(body: unknown): BodyInit | undefined {
+  if (!body) return undefined
+  if (typeof body === 'string' || body instanceof FormData || body instanceof Blob) {
+    return body
+  }
+  return JSON.stringify(body)
+}
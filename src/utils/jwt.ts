@@ -0,0 +1,59 @@
+/**
+ * JWT Utilities
+ *
+ * Tokens are only decoded, never verified - the backend remains the authority.
+ */
+
+export interface IJwtPayload {
+  sub?: string
+  id?: string
+  userId?: string
+  exp?: number // Seconds since epoch
+  [claim: string]: unknown
+}
+
+/**
+ * Decode the payload of a JWT
+ *
+ * @param token - Encoded JWT
+ * @returns The payload, or null if the token is malformed
+ */
+export function decodeJwtPayload(token: string): IJwtPayload | null {
+  const parts = token.split('.')
+  if (parts.length !== 3 || !parts[1]) return null
+
+  try {
+    // base64url -> base64
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(base64)) as IJwtPayload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check if a JWT is expired (or about to expire)
+ *
+ * @param token - Encoded JWT
+ * @param skewMs - Treat the token as expired this many ms before its exp
+ * @returns True if exp is in the past; tokens without exp never expire
+ */
+export function isTokenExpired(token: string, skewMs = 0): boolean {
+  const payload = decodeJwtPayload(token)
+  if (!payload || typeof payload.exp !== 'number') return false
+
+  return payload.exp * 1000 - skewMs <= Date.now()
+}
+
+/**
+ * Get the user ID stored in a JWT
+ *
+ * @param token - Encoded JWT
+ * @returns The sub / userId / id claim, or null
+ */
+export function getJwtUserId(token: string): string | null {
+  const payload = decodeJwtPayload(token)
+  if (!payload) return null
+
+  return payload.sub || payload.userId || payload.id || null
+}
@@ -0,0 +1,142 @@
+/**
+ * Mention Utilities
+ *
+ * Mentions travel inside the message content as tokens: @[Display Name](userId).
+ * The name keeps the content readable for clients without mention support,
+ * the ID is what the highlighting, "mentioned you" flag and notifications use.
+ */
+
+import type { IUser } from '../interfaces/user.interface'
+import type { IMention } from '../interfaces/message.interface'
+import type { IConversation } from '../interfaces/conversation.interface'
+
+// @[name](id), names can't contain brackets or line breaks
+const MENTION_TOKEN = /@\[([^[\]\n]+)\]\(([\w-]+)\)/g
+
+/**
+ * Build the token of a mention
+ *
+ * @param user - Mentioned user
+ * @returns Token inserted in the message content
+ */
+export function formatMentionToken(user: Pick<IUser, 'id' | 'name'>): string {
+  const name = user.name.replace(/[[\]\n]/g, '').trim() || user.id
+  return `@[${name}](${user.id})`
+}
+
+/**
+ * Read the mentions of a message content, each user once
+ *
+ * @param content - Message content with mention tokens
+ * @returns Mentioned users in order of appearance
+ */
+export function parseMentions(content: string | undefined): IMention[] {
+  if (!content) return []
+
+  const mentions = new Map<string, IMention>()
+  for (const match of content.matchAll(MENTION_TOKEN)) {
+    const [, name, userId] = match
+    if (name && userId && !mentions.has(userId)) {
+      mentions.set(userId, { userId, name })
+    }
+  }
+  return Array.from(mentions.values())
+}
+
+/**
+ * Check whether a message content mentions a user
+ */
+export function isMentioned(content: string | undefined, userId: string | undefined): boolean {
+  if (!userId) return false
+  return parseMentions(content).some(m => m.userId === userId)
+}
+
+/**
+ * Replace mention tokens by "@Name" (previews, notifications, plain text copies)
+ */
+export function mentionsToPlainText(content: string): string {
+  return content.replace(MENTION_TOKEN, (_token, name: string) => `@${name}`)
+}
+
+/**
+ * Turn the "@Name" of picked users into mention tokens
+ *
+ * The input shows readable names; only names picked from the autocomplete become
+ * mentions, longest first so "@Ann Lee" wins over "@Ann".
+ *
+ * @param text - Text as typed in the input
+ * @param users - Users picked from the autocomplete
+ * @returns Content with tokens and the IDs of the users still mentioned
+ */
+export function serializeMentions(
+  text: string,
+  users: Pick<IUser, 'id' | 'name'>[]
+): { content: string; mentions: string[] } {
+  const mentioned = new Set<string>()
+  let content = text
+
+  const sorted = [...users].sort((a, b) => b.name.length - a.name.length)
+  sorted.forEach(user => {
+    const name = escapeRegExp(`@${user.name}`)
+    // Not the start of a longer word (tokens start with "@[" and never match)
+    const pattern = new RegExp(`${name}(?![\\w])`, 'g')
+    content = content.replace(pattern, () => {
+      mentioned.add(user.id)
+      return formatMentionToken(user)
+    })
+  })
+
+  return { content, mentions: Array.from(mentioned) }
+}
+
+/**
+ * Find the "@query" being typed right before the cursor
+ *
+ * @param text - Input text
+ * @param cursor - Cursor position
+ * @returns Query without the "@" and the index of the "@", or null
+ */
+export function findMentionQuery(text: string, cursor: number): { query: string; start: number } | null {
+  const match = text.slice(0, cursor).match(/(^|\s)@([^\s@[\]]{0,30})$/)
+  if (!match) return null
+
+  const query = match[2] || ''
+  return { query, start: cursor - query.length - 1 }
+}
+
+/**
+ * Users that can be mentioned in a conversation
+ *
+ * Merges participants with participantsInfo (detailed API), which may carry
+ * names the participant list lacks.
+ *
+ * @param conversation - Active conversation
+ * @param excludeUserId - Usually the current user
+ * @returns Participants with a name, sorted by name
+ */
+export function getMentionCandidates(conversation: IConversation | null | undefined, excludeUserId?: string): IUser[] {
+  if (!conversation) return []
+
+  const candidates = new Map<string, IUser>()
+  conversation.participants.forEach(p => {
+    if (p.id) candidates.set(p.id, p)
+  })
+  conversation.participantsInfo?.forEach(info => {
+    const existing = candidates.get(info.id)
+    candidates.set(info.id, {
+      ...existing,
+      id: info.id,
+      name: info.name || existing?.name || '',
+      email: info.email || existing?.email,
+      avatarUrl: existing?.avatarUrl || info.avatar
+    })
+  })
+
+  return Array.from(candidates.values())
+    .filter(user => user.id !== excludeUserId && !!user.name)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,233 @@
+/**
+ * Message Renderer
+ *
+ * Shared markdown renderer for message bubbles and the input preview.
+ * Output is injected with v-html, so raw HTML is either escaped or run through
+ * an allowlist sanitizer, and every URL is checked against a protocol allowlist.
+ * Mention tokens (@[name](userId)) are rendered as <span class="mention">.
+ */
+
+import MarkdownIt from 'markdown-it'
+import hljs from 'highlight.js'
+import type { IMessageRenderContext, IMessageRenderer, IMessageRendererOptions } from '../interfaces/renderer.interface'
+
+const DEFAULT_ALLOWED_TAGS = [
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'del', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'i', 'img', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'small', 'span', 'strong', 'sub',
+  'sup', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'u', 'ul'
+]
+
+const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['title'],
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  code: ['class'],
+  pre: ['class'],
+  span: ['class', 'data-user-id'],
+  th: ['style'],
+  td: ['style']
+}
+
+const DEFAULT_ALLOWED_PROTOCOLS = ['http', 'https', 'mailto', 'tel']
+
+// Removed together with their content, other disallowed tags are unwrapped
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript',
+  'template', 'textarea', 'select', 'option', 'title', 'head', 'meta', 'link', 'base', 'svg', 'math'
+])
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'xlink:href', 'action', 'formaction'])
+
+// Only highlight.js, markdown-it and mention classes survive (no layout hijacking with host classes)
+const SAFE_CLASS = /^(hljs(-[\w-]+)?|language-[\w+#.-]+|mention(-self)?)$/
+// markdown-it renders table alignment as an inline style
+const SAFE_STYLE = /^text-align:\s*(left|right|center);?$/i
+
+const LINK_REL = 'noopener noreferrer'
+
+// Anchored version of the token in utils/mentions
+const MENTION_AT_START = /^@\[([^[\]\n]+)\]\(([\w-]+)\)/
+
+/**
+ * Check that a URL is relative or uses an allowed protocol
+ *
+ * Browsers ignore whitespace and control characters inside the scheme
+ * ("java\tscript:"), so they are stripped before the scheme is read.
+ *
+ * @param url - URL from a link or image
+ * @param allowedProtocols - Allowed schemes without the colon
+ * @returns True if the URL may be rendered
+ */
+export function isSafeUrl(url: string, allowedProtocols: string[] = DEFAULT_ALLOWED_PROTOCOLS): boolean {
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase()
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)
+  if (!scheme) {
+    // Relative URL or anchor; "//host" is protocol-relative and stays on http(s)
+    return true
+  }
+  return allowedProtocols.includes(scheme[1] || '')
+}
+
+/**
+ * Create a markdown renderer for message content
+ *
+ * @param options - Raw HTML policy, link target and allowlist extensions
+ * @returns Renderer whose output is safe to inject with v-html
+ */
+export function createMessageRenderer(options: IMessageRendererOptions = {}): IMessageRenderer {
+  const linkTarget = options.linkTarget === undefined ? '_blank' : options.linkTarget
+  const allowedTags = new Set([...DEFAULT_ALLOWED_TAGS, ...(options.allowedTags || [])].map(t => t.toLowerCase()))
+  const allowedProtocols = [...DEFAULT_ALLOWED_PROTOCOLS, ...(options.allowedProtocols || [])].map(p => p.toLowerCase())
+  const allowedAttributes = new Map<string, Set<string>>()
+  Object.entries(DEFAULT_ALLOWED_ATTRIBUTES).concat(Object.entries(options.allowedAttributes || {}))
+    .forEach(([tag, attributes]) => {
+      const key = tag.toLowerCase()
+      const existing = allowedAttributes.get(key) || new Set<string>()
+      attributes.forEach(a => existing.add(a.toLowerCase()))
+      allowedAttributes.set(key, existing)
+    })
+
+  // Sanitizing needs a DOM; without one raw HTML is escaped instead
+  const canSanitize = typeof DOMParser !== 'undefined'
+  const sanitizeRawHtml = (options.rawHtml || 'sanitize') === 'sanitize' && canSanitize
+
+  const md: MarkdownIt = new MarkdownIt({
+    html: sanitizeRawHtml,
+    linkify: true,
+    typographer: true,
+    breaks: true,
+    highlight: function (str: string, lang: string): string {
+      if (options.highlight !== false && lang && hljs.getLanguage(lang)) {
+        try {
+          return '<pre class="hljs"><code class="language-' + md.utils.escapeHtml(lang) + '">' +
+                 hljs.highlight(str, { language: lang, ignoreIllegals: true }).value +
+                 '</code></pre>'
+        } catch {
+          // Ignore errors
+        }
+      }
+      return '<pre class="hljs"><code>' + md.utils.escapeHtml(str) + '</code></pre>'
+    }
+  })
+
+  // Markdown links and images with a blocked protocol are left as plain text
+  md.validateLink = (url: string) => isSafeUrl(url, allowedProtocols)
+
+  // Markdown links get the link policy even when raw HTML is escaped
+  const defaultLinkOpen = md.renderer.rules.link_open ||
+    ((tokens, idx, opts, _env, self) => self.renderToken(tokens, idx, opts))
+  md.renderer.rules.link_open = (tokens, idx, opts, env, self) => {
+    const token = tokens[idx]
+    if (token) {
+      token.attrSet('rel', LINK_REL)
+      if (linkTarget) token.attrSet('target', linkTarget)
+    }
+    return defaultLinkOpen(tokens, idx, opts, env, self)
+  }
+
+  // @[name](userId), before the link rule so the token isn't read as a link
+  md.inline.ruler.before('link', 'mention', (state, silent) => {
+    if (state.src.charCodeAt(state.pos) !== 0x40 /* @ */) return false
+
+    const match = state.src.slice(state.pos).match(MENTION_AT_START)
+    if (!match) return false
+
+    if (!silent) {
+      const token = state.push('mention', 'span', 0)
+      token.meta = { name: match[1], userId: match[2] }
+    }
+    state.pos += match[0].length
+    return true
+  })
+  md.renderer.rules.mention = (tokens, idx, _opts, env: IMessageRenderContext) => {
+    const { name, userId } = tokens[idx]?.meta as { name: string; userId: string }
+    const className = env?.currentUserId === userId ? 'mention mention-self' : 'mention'
+    return `<span class="${className}" data-user-id="${md.utils.escapeHtml(userId)}">@${md.utils.escapeHtml(name)}</span>`
+  }
+
+  const isAllowedAttribute = (tag: string, name: string): boolean => {
+    // Event handlers are never allowed, whatever the host adds
+    if (name.startsWith('on')) return false
+    return !!allowedAttributes.get(tag)?.has(name) || !!allowedAttributes.get('*')?.has(name)
+  }
+
+  const sanitizeAttributes = (element: Element, tag: string) => {
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase()
+      const value = attribute.value
+
+      if (!isAllowedAttribute(tag, name)) {
+        element.removeAttribute(attribute.name)
+      } else if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value, allowedProtocols)) {
+        element.removeAttribute(attribute.name)
+      } else if (name === 'class') {
+        const classes = value.split(/\s+/).filter(c => SAFE_CLASS.test(c))
+        if (classes.length > 0) {
+          element.setAttribute('class', classes.join(' '))
+        } else {
+          element.removeAttribute(attribute.name)
+        }
+      } else if (name === 'style' && !SAFE_STYLE.test(value.trim())) {
+        element.removeAttribute(attribute.name)
+      }
+    })
+
+    if (tag === 'a') {
+      element.setAttribute('rel', LINK_REL)
+      if (linkTarget) {
+        element.setAttribute('target', linkTarget)
+      } else {
+        element.removeAttribute('target')
+      }
+    }
+  }
+
+  const sanitizeChildren = (parent: Element) => {
+    Array.from(parent.childNodes).forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) return
+
+      // Comments, CDATA and processing instructions
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        node.parentNode?.removeChild(node)
+        return
+      }
+
+      const element = node as Element
+      const tag = element.tagName.toLowerCase()
+      if (!allowedTags.has(tag)) {
+        if (DROPPED_TAGS.has(tag)) {
+          element.remove()
+        } else {
+          // Keep the text of unknown tags
+          sanitizeChildren(element)
+          element.replaceWith(...Array.from(element.childNodes))
+        }
+        return
+      }
+
+      sanitizeAttributes(element, tag)
+      sanitizeChildren(element)
+    })
+  }
+
+  // Keep only allowlisted tags, attributes and URLs (parsed in an inert document, nothing runs)
+  const sanitize = (html: string): string => {
+    if (!canSanitize) return md.utils.escapeHtml(html)
+
+    const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}</body>`, 'text/html')
+    sanitizeChildren(doc.body)
+    return doc.body.innerHTML
+  }
+
+  const render = (markdown: string, context: IMessageRenderContext = {}): string => {
+    // markdown-it stores link references on env, keep the caller's object clean
+    const html = md.render(markdown, { ...context })
+    return sanitizeRawHtml ? sanitize(html) : html
+  }
+
+  return {
+    render,
+    sanitize,
+    isSafeUrl: (url: string) => isSafeUrl(url, allowedProtocols)
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Notifier Adapters
+ *
+ * Composables never show toasts themselves; they emit to the notifier passed to
+ * install(app, { notifier }). Element Plus toasts are used by default.
+ */
+
+import { ElMessage } from 'element-plus'
+import type { INotification, INotifier, NotificationLevel } from '../interfaces/notifier.interface'
+
+export interface ElementPlusNotifierOptions {
+  // Translate a notification key, return undefined to keep the default message
+  translate?: (key: string, payload?: Record<string, unknown>) => string | undefined
+  duration?: number // Default duration in ms
+}
+
+/**
+ * Show notifications as Element Plus messages
+ */
+export function createElementPlusNotifier(options: ElementPlusNotifierOptions = {}): INotifier {
+  const show = (type: NotificationLevel, notification: INotification) => {
+    ElMessage({
+      type,
+      message: options.translate?.(notification.key, notification.payload) ?? notification.message,
+      duration: notification.duration ?? options.duration ?? 3000,
+      showClose: notification.closable
+    })
+  }
+
+  return {
+    info: notification => show('info', notification),
+    success: notification => show('success', notification),
+    warning: notification => show('warning', notification),
+    error: notification => show('error', notification)
+  }
+}
+
+/**
+ * Drop every notification (tests, headless hosts)
+ */
+export function createSilentNotifier(): INotifier {
+  const ignore = () => {}
+
+  return {
+    info: ignore,
+    success: ignore,
+    warning: ignore,
+    error: ignore
+  }
+}
@@ -6,8 +6,11 @@
  */
 
 import type { IMessage } from '../interfaces/message.interface'
-import type { IChatMessage } from '../interfaces/message.interface'
+import type { IUser } from '../interfaces/user.interface'
+import type { IMessageRevision, IMessageReaction } from '../interfaces/message.interface'
+import type { ISocketMessagePayload } from '../interfaces/socket.interface'
 import { parseReplyToId } from './messageParser'
+import { parseMentions } from './mentions'
 
 /**
  * Parse sender field from socket message
@@ -60,6 +63,87 @@ export function parseSenderFromSocketMessage(message: any): {
   }
 }
 
+/**
+ * Parse the edit history of a socket message
+ *
+ * Older backends name the timestamp editedAt instead of replacedAt.
+ *
+ * @param socketMessage - Raw message from socket event
+ * @returns Revisions (oldest first), or undefined if the backend sent none
+ */
+export function parseEditHistory(
+  socketMessage: Pick<ISocketMessagePayload, 'editHistory' | 'updatedAt'>
+): IMessageRevision[] | undefined {
+  if (!Array.isArray(socketMessage.editHistory)) return undefined
+
+  return socketMessage.editHistory.map(revision => ({
+    content: revision.content || '',
+    replacedAt: new Date(revision.replacedAt || revision.editedAt || socketMessage.updatedAt || Date.now())
+  }))
+}
+
+/**
+ * Parse the reactions of a socket message
+ *
+ * Handles two formats:
+ * 1. one entry per user: [{emoji, userId, userName}] or [{emoji, user: {id, name}}]
+ * 2. aggregated per emoji: [{emoji, users: [{id, name}]}]
+ *
+ * @param socketMessage - Raw message from socket event
+ * @returns Reactions aggregated per emoji (first reaction first), or undefined if the backend sent none
+ */
+export function parseReactions(
+  socketMessage: Pick<ISocketMessagePayload, 'reactions'>
+): IMessageReaction[] | undefined {
+  if (!Array.isArray(socketMessage.reactions)) return undefined
+
+  const reactions: IMessageReaction[] = []
+  socketMessage.reactions.forEach(raw => {
+    if (!raw?.emoji) return
+
+    const users = raw.users
+      ? raw.users.map(u => ({ id: u.id || u._id || '', name: u.name || u.username || '' }))
+      : [{
+          id: raw.userId || raw.user?.id || raw.user?._id || '',
+          name: raw.userName || raw.user?.name || raw.user?.username || ''
+        }]
+
+    const existing = reactions.find(r => r.emoji === raw.emoji)
+    const reaction = existing || { emoji: raw.emoji, users: [] }
+    if (!existing) reactions.push(reaction)
+
+    users
+      .filter(u => u.id && !reaction.users.some(other => other.id === u.id))
+      .forEach(u => reaction.users.push(u))
+  })
+
+  return reactions.filter(r => r.users.length > 0)
+}
+
+/**
+ * Parse the mentions of a socket message
+ *
+ * Mention tokens in the content carry the names; IDs the backend lists in
+ * `mentions` without a token (older clients) are kept with the name it sent.
+ *
+ * @param socketMessage - Raw message from socket event
+ * @returns Mentioned users, or undefined if the message mentions nobody
+ */
+export function parseMessageMentions(
+  socketMessage: Pick<ISocketMessagePayload, 'content' | 'mentions'>
+): IUser[] | undefined {
+  const mentions: IUser[] = parseMentions(socketMessage.content).map(m => ({ id: m.userId, name: m.name }))
+
+  socketMessage.mentions?.forEach(raw => {
+    const id = typeof raw === 'string' ? raw : raw.id || raw._id
+    if (id && !mentions.some(m => m.id === id)) {
+      mentions.push({ id, name: typeof raw === 'string' ? '' : raw.name || '' })
+    }
+  })
+
+  return mentions.length > 0 ? mentions : undefined
+}
+
 /**
  * Normalize socket message to IMessage format
  *
@@ -118,11 +202,18 @@ export function normalizeSocketMessage(
     updatedAt: new Date(socketMessage.updatedAt || socketMessage.createdAt || Date.now()),
     fileUrl: socketMessage.fileUrl,
     fileName: socketMessage.fileName,
+    ...(Array.isArray(socketMessage.attachments) && { attachments: socketMessage.attachments }),
     metadata: {
       isEdited: socketMessage.isEdited || false,
       isDeleted: socketMessage.isDeleted || false,
-      conversationId: socketMessage.conversationId // IMPORTANT: Include conversationId
+      ...(socketMessage.editedAt && { editedAt: new Date(socketMessage.editedAt) }),
+      ...(socketMessage.editHistory && { editHistory: parseEditHistory(socketMessage) }),
+      ...(socketMessage.reactions && { reactions: parseReactions(socketMessage) }),
+      ...(Array.isArray(socketMessage.listenedBy) && { listenedBy: socketMessage.listenedBy }),
+      conversationId: socketMessage.conversationId, // IMPORTANT: Include conversationId
+      ...(socketMessage.clientId && { clientId: socketMessage.clientId })
     },
+    mentions: parseMessageMentions(socketMessage),
     ...(replyToMessage && { replyTo: replyToMessage })
   }
 }
@@ -202,6 +293,7 @@ export function convertToIChatMessage(
 ): any {
   return {
     id: message.id,
+    clientId: message.metadata?.clientId,
     conversationId,
     sender: {
       id: message.sender.id,
@@ -213,11 +305,17 @@ export function convertToIChatMessage(
     type: message.type || 'text',
     fileUrl: message.fileUrl,
     fileName: message.fileName,
+    attachments: message.attachments,
     readBy: [], // Will be updated later
+    listenedBy: message.metadata?.listenedBy,
     replyTo: message.replyTo?.id,
     replyToMessage: message.replyTo ? convertToIChatMessage(message.replyTo, conversationId) : undefined,
     isEdited: message.metadata?.isEdited || false,
     isDeleted: message.metadata?.isDeleted || false,
+    editedAt: message.metadata?.editedAt,
+    editHistory: message.metadata?.editHistory,
+    reactions: message.metadata?.reactions,
+    mentions: message.mentions?.map(user => user.id),
     createdAt: message.createdAt,
     updatedAt: message.updatedAt
   }
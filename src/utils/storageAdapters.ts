@@ -0,0 +1,160 @@
+/**
+ * Storage Adapters
+ *
+ * Backends for the offline cache (see composables/usePersistence).
+ * Every adapter stores IStoredRecord values under string keys, one object store per StorageStoreName.
+ */
+
+import type {
+  IStorageAdapter,
+  IStoredEntry,
+  IStoredRecord,
+  StorageStoreName
+} from '../interfaces/storage.interface'
+
+const STORE_NAMES: StorageStoreName[] = ['conversations', 'messages', 'pinnedMessages', 'users']
+
+/**
+ * Create an in-memory adapter
+ *
+ * Nothing survives a page reload. Used when IndexedDB is unavailable and in tests.
+ *
+ * @returns Storage adapter backed by Maps
+ */
+export function createMemoryAdapter(): IStorageAdapter {
+  const stores = new Map<StorageStoreName, Map<string, IStoredRecord>>(
+    STORE_NAMES.map(name => [name, new Map()])
+  )
+
+  const getStore = (store: StorageStoreName) => stores.get(store)!
+
+  return {
+    async getItem(store, key) {
+      return getStore(store).get(key)
+    },
+
+    async setItem(store, key, record) {
+      getStore(store).set(key, record)
+    },
+
+    async removeItem(store, key) {
+      getStore(store).delete(key)
+    },
+
+    async getAll(store, prefix) {
+      const entries: IStoredEntry[] = []
+      for (const [key, record] of getStore(store).entries()) {
+        if (key.startsWith(prefix)) {
+          entries.push({ key, record })
+        }
+      }
+      return entries
+    },
+
+    async clear(prefix, store) {
+      const names = store ? [store] : STORE_NAMES
+      for (const name of names) {
+        const current = getStore(name)
+        for (const key of Array.from(current.keys())) {
+          if (key.startsWith(prefix)) {
+            current.delete(key)
+          }
+        }
+      }
+    }
+  }
+}
+
+// Promisify an IDBRequest
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Key range matching every key that starts with prefix
+const prefixRange = (prefix: string): IDBKeyRange => {
+  return IDBKeyRange.bound(prefix, prefix + '\uffff')
+}
+
+/**
+ * Create an IndexedDB adapter
+ *
+ * Falls back to the in-memory adapter when IndexedDB is not available (SSR, some private modes).
+ *
+ * @param dbName - Database name
+ * @returns Storage adapter backed by IndexedDB
+ */
+export function createIndexedDBAdapter(dbName = 'vue3-chat-uikit'): IStorageAdapter {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('⚠️ IndexedDB not available, using in-memory cache')
+    return createMemoryAdapter()
+  }
+
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1)
+
+        request.onupgradeneeded = () => {
+          const db = request.result
+          STORE_NAMES.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name)
+            }
+          })
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return dbPromise
+  }
+
+  const withStore = async <T>(
+    store: StorageStoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase()
+    const objectStore = db.transaction(store, mode).objectStore(store)
+    return requestToPromise(run(objectStore))
+  }
+
+  return {
+    async getItem(store, key) {
+      return withStore<IStoredRecord | undefined>(store, 'readonly', s => s.get(key))
+    },
+
+    async setItem(store, key, record) {
+      await withStore(store, 'readwrite', s => s.put(record, key))
+    },
+
+    async removeItem(store, key) {
+      await withStore(store, 'readwrite', s => s.delete(key))
+    },
+
+    async getAll(store, prefix) {
+      const range = prefixRange(prefix)
+      const [keys, records] = await Promise.all([
+        withStore(store, 'readonly', s => s.getAllKeys(range)),
+        withStore<IStoredRecord[]>(store, 'readonly', s => s.getAll(range))
+      ])
+      return keys.map((key, index) => ({ key: String(key), record: records[index]! }))
+    },
+
+    async clear(prefix, store) {
+      const names = store ? [store] : STORE_NAMES
+      await Promise.all(
+        names.map(name => withStore(name, 'readwrite', s => s.delete(prefixRange(prefix))))
+      )
+    }
+  }
+}
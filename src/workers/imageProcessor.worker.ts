@@ -0,0 +1,24 @@
+/**
+ * Image Worker
+ *
+ * Runs the image pipeline of useImageProcessor off the main thread.
+ */
+
+import { processImageBlob } from '../utils/imageProcessing'
+import type { IImageWorkerRequest, IImageWorkerResponse } from '../interfaces/image.interface'
+
+// Dedicated worker scope (the app is type-checked against the DOM lib)
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<IImageWorkerRequest>) => void) | null
+  postMessage: (message: IImageWorkerResponse) => void
+}
+
+scope.onmessage = async (event) => {
+  const { id, file, options } = event.data
+  try {
+    const result = await processImageBlob(file, options)
+    scope.postMessage({ id, result })
+  } catch (err) {
+    scope.postMessage({ id, error: err instanceof Error ? err.message : String(err) })
+  }
+}